@@ -0,0 +1,244 @@
+import { useEffect, useState } from 'react';
+import { Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Connection, TableNode } from '@/types/schema';
+import { useProject } from '@/hooks/useProject';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ActionSelect } from '@/components/ReferentialActionsPanel';
+import {
+  RELATIONSHIP_TYPES,
+  getConnectionFields,
+  getDefaultForeignKeyName,
+} from '@/utils/relationships';
+import { getProjectDialect } from '@/utils/typeCatalog';
+import { validateConnection } from '@/utils/validation';
+
+interface ConnectionInspectorProps {
+  connection: Connection;
+  onClose: () => void;
+}
+
+function FieldSelect({
+  label,
+  table,
+  value,
+  taken = [],
+  disabled,
+  onChange,
+}: {
+  label: string;
+  table?: TableNode;
+  value: string;
+  taken?: string[]; // Columns already used by another relation
+  disabled?: boolean;
+  onChange: (fieldId: string) => void;
+}): JSX.Element {
+  return (
+    <div className="grid gap-1.5">
+      <Label className="text-xs">
+        {label} <span className="text-muted-foreground">({table?.name ?? '?'})</span>
+      </Label>
+      <Select value={value} onValueChange={onChange} disabled={disabled || !table}>
+        <SelectTrigger className="h-8 font-mono">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {table?.fields.map((field) => (
+            <SelectItem
+              key={field.id}
+              value={field.id}
+              disabled={field.id !== value && taken.includes(field.id)}
+              className="font-mono"
+            >
+              {field.name} <span className="text-muted-foreground">{field.type}</span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+// Edits one relation; opened by clicking its edge on the canvas
+export function ConnectionInspector({
+  connection,
+  onClose,
+}: ConnectionInspectorProps): JSX.Element {
+  const { currentProject, connectionsApi, tablesApi } = useProject();
+  const tables = currentProject?.tables ?? [];
+  const dialect = getProjectDialect(currentProject);
+  const source = tables.find((t) => t.id === connection.sourceId);
+  const target = tables.find((t) => t.id === connection.targetId);
+  const { source: sourceField } = getConnectionFields(connection, tables);
+  // Key columns of a link table are kept in step with its sides
+  const managed = !!source?.junction;
+
+  const [name, setName] = useState(connection.name ?? '');
+  useEffect(() => {
+    setName(connection.name ?? '');
+  }, [connection.id, connection.name]);
+
+  const { errors } = validateConnection(connection, tables, dialect);
+  const taken = (currentProject?.connections ?? [])
+    .filter((c) => c.id !== connection.id && c.sourceId === connection.sourceId)
+    .map((c) => c.sourceFieldId);
+
+  const update = (changes: Partial<Connection>): void => {
+    connectionsApi.updateConnection({ ...connection, ...changes });
+  };
+
+  const commitName = (): void => {
+    const trimmed = name.trim() || undefined;
+    if (trimmed !== connection.name) update({ name: trimmed });
+  };
+
+  // Optional means the referencing column accepts NULL
+  const setOptional = (optional: boolean): void => {
+    if (!source || !sourceField) return;
+    const table = {
+      ...source,
+      fields: source.fields.map((f) =>
+        f.id === sourceField.id ? { ...f, notNull: !optional } : f
+      ),
+    };
+    // e.g. a required column cannot keep ON DELETE SET NULL
+    const validation = validateConnection(
+      connection,
+      tables.map((t) => (t.id === table.id ? table : t)),
+      dialect
+    );
+    if (!validation.valid) {
+      validation.errors.forEach((error) => toast.error(error));
+      return;
+    }
+    tablesApi.updateTable(table);
+  };
+
+  const handleDelete = (): void => {
+    if (connectionsApi.deleteConnection(connection.id)) onClose();
+  };
+
+  return (
+    <div className="p-4 space-y-4">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <h3 className="font-medium">Relation</h3>
+          <p className="text-sm font-mono text-muted-foreground break-all">
+            {source?.name} → {target?.name}
+          </p>
+        </div>
+        <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="grid gap-1.5">
+        <Label className="text-xs">Cardinality</Label>
+        <Select
+          value={connection.relationshipType}
+          onValueChange={(relationshipType) =>
+            update({ relationshipType: relationshipType as Connection['relationshipType'] })
+          }
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RELATIONSHIP_TYPES.map((type) => (
+              <SelectItem key={type.value} value={type.value}>
+                {type.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <FieldSelect
+        label="Referencing column"
+        table={source}
+        value={connection.sourceFieldId}
+        taken={taken}
+        disabled={managed}
+        onChange={(sourceFieldId) => update({ sourceFieldId })}
+      />
+      <FieldSelect
+        label="Referenced column"
+        table={target}
+        value={connection.targetFieldId}
+        disabled={managed}
+        onChange={(targetFieldId) => update({ targetFieldId })}
+      />
+      {managed && (
+        <p className="text-xs text-muted-foreground">
+          The columns of a many-to-many link table follow the primary keys of its sides.
+        </p>
+      )}
+
+      <div className="grid gap-1.5">
+        <Label htmlFor="connection-name" className="text-xs">
+          Constraint name
+        </Label>
+        <Input
+          id="connection-name"
+          className="h-8 font-mono"
+          value={name}
+          placeholder={
+            source && target && sourceField
+              ? getDefaultForeignKeyName(source.name, sourceField.name, target.name)
+              : undefined
+          }
+          onChange={(e) => setName(e.target.value)}
+          onBlur={commitName}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitName();
+          }}
+        />
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Switch
+          id="connection-optional"
+          checked={!!sourceField && !sourceField.notNull && !sourceField.primary}
+          disabled={!sourceField || sourceField.primary}
+          onCheckedChange={setOptional}
+        />
+        <Label htmlFor="connection-optional">Optional</Label>
+        <span className="text-xs text-muted-foreground">
+          {sourceField?.primary ? 'part of the primary key' : 'column accepts NULL'}
+        </span>
+      </div>
+
+      <ActionSelect
+        label="On delete"
+        value={connection.onDelete}
+        onChange={(onDelete) => update({ onDelete })}
+      />
+      <ActionSelect
+        label="On update"
+        value={connection.onUpdate}
+        onChange={(onUpdate) => update({ onUpdate })}
+      />
+
+      {errors.map((error) => (
+        <p key={error} className="text-xs text-destructive">
+          {error}
+        </p>
+      ))}
+
+      <Button variant="outline" className="w-full text-destructive" onClick={handleDelete}>
+        <Trash2 className="h-4 w-4 mr-2" />
+        Delete relation
+      </Button>
+    </div>
+  );
+}
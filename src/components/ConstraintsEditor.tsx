@@ -0,0 +1,147 @@
+import { v4 as uuidv4 } from 'uuid';
+import { KeyRound, Plus, Trash2 } from 'lucide-react';
+import { CheckConstraint, Field, TableConstraint, UniqueConstraint } from '@/types/schema';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { getConstraintName } from '@/utils/tableConstraints';
+
+interface ConstraintsEditorProps {
+  tableName: string;
+  fields: Field[];
+  constraints: TableConstraint[];
+  onChange: (constraints: TableConstraint[]) => void;
+}
+
+export function ConstraintsEditor({
+  tableName,
+  fields,
+  constraints,
+  onChange,
+}: ConstraintsEditorProps): JSX.Element {
+  const namedFields = fields.filter((field) => field.name.trim());
+  const primaryFields = fields.filter((field) => field.primary);
+
+  const updateConstraint = (
+    id: string,
+    update: Partial<UniqueConstraint> | Partial<CheckConstraint>
+  ): void => {
+    onChange(constraints.map((c) => (c.id === id ? ({ ...c, ...update } as TableConstraint) : c)));
+  };
+
+  // Columns keep the order they were picked in, which is the order of the index
+  const toggleColumn = (constraint: UniqueConstraint, fieldId: string): void => {
+    updateConstraint(constraint.id, {
+      fieldIds: constraint.fieldIds.includes(fieldId)
+        ? constraint.fieldIds.filter((id) => id !== fieldId)
+        : [...constraint.fieldIds, fieldId],
+    });
+  };
+
+  const handleAddUnique = (): void => {
+    onChange([...constraints, { id: uuidv4(), type: 'unique', fieldIds: [] }]);
+  };
+
+  const handleAddCheck = (): void => {
+    onChange([...constraints, { id: uuidv4(), type: 'check', expression: '' }]);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 text-sm">
+        <KeyRound className="h-4 w-4 text-amber-500" />
+        <span className="font-medium">Primary key:</span>
+        {primaryFields.length > 0 ? (
+          <span className="font-mono">({primaryFields.map((f) => f.name || '?').join(', ')})</span>
+        ) : (
+          <span className="text-muted-foreground">
+            none. Mark one or more fields as Primary to define it.
+          </span>
+        )}
+      </div>
+
+      {constraints.map((constraint) => (
+        <div key={constraint.id} className="p-3 border rounded-md space-y-3">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium w-16">
+              {constraint.type === 'unique' ? 'UNIQUE' : 'CHECK'}
+            </span>
+            <Input
+              value={constraint.name ?? ''}
+              onChange={(e) => updateConstraint(constraint.id, { name: e.target.value })}
+              placeholder={getConstraintName(
+                { name: tableName || 'table', fields, constraints },
+                constraint
+              )}
+              className="h-8"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0"
+              onClick={() => onChange(constraints.filter((c) => c.id !== constraint.id))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          {constraint.type === 'unique' ? (
+            <>
+              <div className="flex flex-wrap gap-2">
+                {namedFields.map((field) => {
+                  const position = constraint.fieldIds.indexOf(field.id);
+                  return (
+                    <Button
+                      key={field.id}
+                      type="button"
+                      size="sm"
+                      variant={position === -1 ? 'outline' : 'default'}
+                      className="h-7"
+                      onClick={() => toggleColumn(constraint, field.id)}
+                    >
+                      {position === -1 ? field.name : `${position + 1}. ${field.name}`}
+                    </Button>
+                  );
+                })}
+              </div>
+              {constraint.fieldIds.length < 2 && (
+                <p className="text-xs text-muted-foreground">
+                  Pick at least two columns; a single column can use the field&apos;s Unique box.
+                </p>
+              )}
+            </>
+          ) : (
+            <Input
+              value={constraint.expression}
+              onChange={(e) => updateConstraint(constraint.id, { expression: e.target.value })}
+              placeholder="ends_at > starts_at"
+              className="h-8 font-mono"
+            />
+          )}
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={handleAddUnique}
+          className="flex items-center gap-2"
+        >
+          <Plus className="h-4 w-4" />
+          Add Unique Constraint
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={handleAddCheck}
+          className="flex items-center gap-2"
+        >
+          <Plus className="h-4 w-4" />
+          Add Check Constraint
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,4 @@
-import { useCallback, useEffect, useMemo } from 'react';
-import * as dagre from 'dagre';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import ReactFlow, { // Keep ReactFlow as default import
   Background,
   Controls,
@@ -19,6 +18,7 @@ import type {
   EdgeTypes,
   EdgeChange,
   NodeChange,
+  ReactFlowInstance,
 } from 'reactflow';
 import { Project } from '@/types/schema';
 import { TableNodeComponent } from './TableNodeComponent';
@@ -26,14 +26,23 @@ import { useProject } from '@/hooks/useProject';
 import { toast } from 'sonner';
 import { FloatingEdge } from './FloatingEdge';
 import { useClipboardHandling } from '@/hooks/useClipboardHandling';
-import { LayoutDashboard } from 'lucide-react';
+import { useHistoryShortcuts } from '@/hooks/useHistoryShortcuts';
+import { LayoutDashboard, Network } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { calculateTableLayout } from '@/utils/layout';
+import { getProjectDialect } from '@/utils/typeCatalog';
+import { DEFAULT_EDGE_ROUTING } from '@/utils/edgeRouting';
+import { DEFAULT_ER_NOTATION, MANY_TO_MANY_ENDS, getRelationshipEnds } from '@/utils/erNotation';
+import { ReferentialActionsPanel } from './ReferentialActionsPanel';
 import 'reactflow/dist/style.css';
 
 interface DBCanvasProps {
   project: Project;
   showGrid: boolean;
   onEditTable?: (tableId: string) => void;
+  onToggleJunction?: (tableId: string) => void; // Collapses or expands a many-to-many link table
+  onSelectConnection?: (connectionId: string | null) => void; // Opens the relation inspector
+  focusRequest?: { tableIds: string[] } | null; // Brings these tables into view, once per object
 }
 
 // FloatingEdge component definition removed
@@ -47,8 +56,26 @@ const edgeTypes: EdgeTypes = {
   floating: FloatingEdge,
 };
 
-export function DBCanvas({ project, showGrid, onEditTable }: DBCanvasProps): JSX.Element {
-  const { connectionsApi, tablesApi, currentProject } = useProject();
+// Edges standing in for a collapsed link table carry its id after this prefix
+const JUNCTION_EDGE_PREFIX = 'junction:';
+
+export function DBCanvas({
+  project,
+  showGrid,
+  onEditTable,
+  onToggleJunction,
+  onSelectConnection,
+  focusRequest,
+}: DBCanvasProps): JSX.Element {
+  const {
+    connectionsApi,
+    tablesApi,
+    currentProject,
+    undo,
+    redo,
+    beginHistoryGroup,
+    endHistoryGroup,
+  } = useProject();
 
   // Initialize state hooks with initial data (Moved up)
   // Note: reactFlowNodes/Edges are defined later, but hooks need initial values.
@@ -56,6 +83,31 @@ export function DBCanvas({ project, showGrid, onEditTable }: DBCanvasProps): JSX
   const [nodes, setNodes] = useNodesState([]);
   const [edges, setEdges] = useEdgesState([]);
 
+  // Right-clicked relation, edited in a panel at the cursor
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [edgeMenu, setEdgeMenu] = useState<{ connectionId: string; x: number; y: number } | null>(
+    null
+  );
+  const menuConnection = edgeMenu
+    ? project.connections.find((c) => c.id === edgeMenu.connectionId)
+    : undefined;
+
+  // While on, a drag between two tables creates a many-to-many relation
+  const [manyToManyMode, setManyToManyMode] = useState(false);
+
+  const [flow, setFlow] = useState<ReactFlowInstance | null>(null);
+  useEffect(() => {
+    if (!focusRequest || !flow) return;
+    const { tableIds } = focusRequest;
+    setNodes((nds) => nds.map((node) => ({ ...node, selected: tableIds.includes(node.id) })));
+    flow.fitView({
+      nodes: tableIds.map((id) => ({ id })),
+      duration: 400,
+      padding: 0.5,
+      maxZoom: 1.2,
+    });
+  }, [focusRequest, flow, setNodes]);
+
   // Function to calculate optimal positions using Dagre
   const calculateAutoLayout = useCallback(() => {
     if (!currentProject || !nodes || nodes.length === 0) {
@@ -64,38 +116,15 @@ export function DBCanvas({ project, showGrid, onEditTable }: DBCanvasProps): JSX
     }
     console.log('Calculating Auto Layout using Dagre...');
 
-    const dagreGraph = new dagre.graphlib.Graph();
-    dagreGraph.setDefaultEdgeLabel(() => ({}));
-    // Configure layout options (Top-to-bottom, increased spacing)
-    dagreGraph.setGraph({ rankdir: 'TB', nodesep: 100, ranksep: 150 });
-
-    const nodeWidth = 250; // Define node dimensions for Dagre
-    const nodeHeight = 200; // Adjust based on your TableNodeComponent size
-
-    // Add nodes to Dagre graph
-    nodes.forEach((node) => {
-      // Ensure node dimensions are provided
-      dagreGraph.setNode(node.id, {
-        label: node.data.name,
-        width: node.width ?? nodeWidth, // Use actual width if available, else default
-        height: node.height ?? nodeHeight, // Use actual height if available, else default
-      });
-    });
-
-    // Add edges to Dagre graph (Dagre expects source -> target)
-    // Our connections are stored FK -> PK (sourceId -> targetId)
-    // Dagre needs PK -> FK (targetId -> sourceId) for TB layout
-    currentProject.connections.forEach((conn) => {
-      // Ensure both source and target nodes exist in the graph before adding edge
-      if (dagreGraph.hasNode(conn.targetId) && dagreGraph.hasNode(conn.sourceId)) {
-        dagreGraph.setEdge(conn.targetId, conn.sourceId);
-      } else {
-        console.warn(`Skipping edge for connection ${conn.id} due to missing node(s).`);
-      }
-    });
-
+    let positions: Record<string, { x: number; y: number }>;
     try {
-      dagre.layout(dagreGraph);
+      // Use the measured node sizes where React Flow has them
+      const sizes = Object.fromEntries(
+        nodes.map((node) => [node.id, { width: node.width, height: node.height }])
+      );
+      positions = calculateTableLayout(currentProject.tables, currentProject.connections, {
+        sizes,
+      });
       console.log('Dagre layout calculated.');
     } catch (e) {
       console.error('Dagre layout failed:', e);
@@ -103,18 +132,6 @@ export function DBCanvas({ project, showGrid, onEditTable }: DBCanvasProps): JSX
       return;
     }
 
-    const positions: Record<string, { x: number; y: number }> = {};
-    dagreGraph.nodes().forEach((nodeId) => {
-      const node = dagreGraph.node(nodeId);
-      if (node) {
-        // Dagre calculates center position, adjust for top-left corner used by React Flow
-        positions[nodeId] = {
-          x: node.x - (node.width ?? nodeWidth) / 2,
-          y: node.y - (node.height ?? nodeHeight) / 2,
-        };
-      }
-    });
-
     // 4. Prepare updates (Keep existing logic, but use Dagre positions)
     const nodeUpdates: { id: string; position: { x: number; y: number } }[] = [];
     const tables = currentProject.tables; // Need tables for persistence step
@@ -152,6 +169,8 @@ export function DBCanvas({ project, showGrid, onEditTable }: DBCanvasProps): JSX
     // Run this *after* updating the local state to avoid potential re-render conflicts
     if (nodeUpdates.length > 0) {
       console.log('Persisting individual table position updates...');
+      // One layout run is a single undo step
+      beginHistoryGroup();
       nodeUpdates.forEach((update) => {
         const tableToUpdate = tables.find((t) => t.id === update.id);
         if (tableToUpdate) {
@@ -162,9 +181,10 @@ export function DBCanvas({ project, showGrid, onEditTable }: DBCanvasProps): JSX
           });
         }
       });
+      endHistoryGroup();
       console.log('Finished persisting updates.');
     }
-  }, [currentProject, tablesApi, setNodes, nodes]); // Added nodes dependency
+  }, [currentProject, tablesApi, setNodes, nodes, beginHistoryGroup, endHistoryGroup]); // Added nodes dependency
 
   // Convert tables/connections for initial state and updates
   const reactFlowNodes: Node[] = useMemo(
@@ -173,29 +193,82 @@ export function DBCanvas({ project, showGrid, onEditTable }: DBCanvasProps): JSX
         id: table.id,
         type: 'table',
         position: table.position,
-        data: { ...table, onEdit: onEditTable },
+        data: {
+          ...table,
+          onEdit: onEditTable,
+          onToggleJunction,
+          userTypes: project.userTypes,
+        },
         draggable: true,
+        hidden: !!table.junction?.collapsed,
       })),
-    [project.tables, onEditTable]
-  );
-  const reactFlowEdges: Edge[] = useMemo(
-    () =>
-      project.connections.map((connection) => ({
-        id: connection.id,
-        // Reverse source and target for visual representation (PK -> FK)
-        source: connection.targetId, // Table with the referenced PK
-        target: connection.sourceId, // Table with the FK
-        sourceHandle: connection.targetField, // PK field name (connects to right handle of PK table)
-        targetHandle: `${connection.sourceField}-left`, // FK field name (connects to left handle of FK table)
-        type: 'floating',
-        animated: true,
-        zIndex: 10,
-        style: { strokeWidth: 2, stroke: 'hsl(var(--primary))' },
-        data: { relationshipType: connection.relationshipType },
-        markerEnd: 'arrow' as const,
-      })),
-    [project.connections]
+    [project.tables, project.userTypes, onEditTable, onToggleJunction]
   );
+  const reactFlowEdges: Edge[] = useMemo(() => {
+    const notation = project.settings?.notation ?? DEFAULT_ER_NOTATION;
+    const routing = project.settings?.edgeRouting ?? DEFAULT_EDGE_ROUTING;
+    const collapsed = project.tables.filter((table) => table.junction?.collapsed);
+    const collapsedIds = new Set(collapsed.map((table) => table.id));
+
+    // A collapsed link table is drawn as one edge between the first key columns of its sides
+    const junctionEdges = collapsed.flatMap((table): Edge[] => {
+      const { sourceTableId, targetTableId } = table.junction;
+      const sourceKey = project.tables
+        .find((t) => t.id === sourceTableId)
+        ?.fields.find((f) => f.primary);
+      const targetKey = project.tables
+        .find((t) => t.id === targetTableId)
+        ?.fields.find((f) => f.primary);
+      if (!sourceKey || !targetKey) return [];
+      return [
+        {
+          id: `${JUNCTION_EDGE_PREFIX}${table.id}`,
+          source: sourceTableId,
+          target: targetTableId,
+          sourceHandle: sourceKey.id,
+          targetHandle: `${targetKey.id}-left`,
+          type: 'floating',
+          zIndex: 10,
+          style: { strokeWidth: 2, stroke: 'hsl(var(--primary))' },
+          data: {
+            relationshipType: 'manyToMany',
+            junctionName: table.name,
+            notation,
+            ends: MANY_TO_MANY_ENDS,
+            routing,
+          },
+        },
+      ];
+    });
+
+    const connectionEdges = project.connections.map((connection) => ({
+      id: connection.id,
+      // Reverse source and target for visual representation (PK -> FK)
+      source: connection.targetId, // Table with the referenced PK
+      target: connection.sourceId, // Table with the FK
+      sourceHandle: connection.targetFieldId, // PK field id (connects to right handle of PK table)
+      targetHandle: `${connection.sourceFieldId}-left`, // FK field id (connects to left handle of FK table)
+      type: 'floating',
+      animated: true,
+      zIndex: 10,
+      style: { strokeWidth: 2, stroke: 'hsl(var(--primary))' },
+      data: {
+        relationshipType: connection.relationshipType,
+        notation,
+        ends: getRelationshipEnds(connection, project.tables),
+        routing,
+      },
+      markerEnd: 'arrow' as const,
+      hidden: collapsedIds.has(connection.sourceId) || collapsedIds.has(connection.targetId),
+    }));
+
+    return [...connectionEdges, ...junctionEdges];
+  }, [
+    project.tables,
+    project.connections,
+    project.settings?.notation,
+    project.settings?.edgeRouting,
+  ]);
 
   // Removed duplicate state hook initializations
   // const [nodes, setNodes, onNodesChangeInternal] = useNodesState(reactFlowNodes);
@@ -213,6 +286,7 @@ export function DBCanvas({ project, showGrid, onEditTable }: DBCanvasProps): JSX
 
   // Initialize clipboard handling hook (pass nodes state)
   useClipboardHandling({ nodes, projectTables: project.tables, tablesApi });
+  useHistoryShortcuts({ undo, redo });
 
   // Handle new connections
   const onConnect = useCallback(
@@ -221,8 +295,17 @@ export function DBCanvas({ project, showGrid, onEditTable }: DBCanvasProps): JSX
         return;
       }
 
-      // Extract the actual field name from the target handle (remove '-left' suffix if present)
-      const targetField = params.targetHandle.endsWith('-left')
+      if (manyToManyMode) {
+        if (connectionsApi.addManyToMany(params.source, params.target)) {
+          toast.success('Many-to-many relation created', {
+            description: 'Double-click the edge to show the link table',
+          });
+        }
+        return;
+      }
+
+      // Extract the actual field id from the target handle (remove '-left' suffix if present)
+      const targetFieldId = params.targetHandle.endsWith('-left')
         ? params.targetHandle.replace('-left', '')
         : params.targetHandle;
 
@@ -235,10 +318,10 @@ export function DBCanvas({ project, showGrid, onEditTable }: DBCanvasProps): JSX
         return;
       }
 
-      const sourceFieldExists = sourceTable.fields.some((f) => f.name === params.sourceHandle);
-      const targetFieldExists = targetTable.fields.some((f) => f.name === targetField);
+      const sourceField = sourceTable.fields.find((f) => f.id === params.sourceHandle);
+      const targetField = targetTable.fields.find((f) => f.id === targetFieldId);
 
-      if (!sourceFieldExists || !targetFieldExists) {
+      if (!sourceField || !targetField) {
         toast.error('Cannot create connection: fields not found');
         return;
       }
@@ -248,8 +331,8 @@ export function DBCanvas({ project, showGrid, onEditTable }: DBCanvasProps): JSX
         const newConnection = connectionsApi.addConnection({
           sourceId: params.source,
           targetId: params.target,
-          sourceField: params.sourceHandle,
-          targetField: targetField,
+          sourceFieldId: sourceField.id,
+          targetFieldId: targetField.id,
           relationshipType: 'oneToMany', // Default relationship type
         });
 
@@ -259,27 +342,10 @@ export function DBCanvas({ project, showGrid, onEditTable }: DBCanvasProps): JSX
 
         // REMOVED: Immediate visual edge update.
         // Let the useEffect hook handle edge updates based on project prop changes.
-
-        // Update the source table's field to mark it as a foreign key
-        const updatedSourceTable = {
-          ...sourceTable,
-          fields: sourceTable.fields.map((field) => {
-            if (field.name === params.sourceHandle) {
-              return {
-                ...field,
-                foreignKey: {
-                  tableId: params.target,
-                  fieldName: targetField,
-                },
-              };
-            }
-            return field;
-          }),
-        };
-        tablesApi.updateTable(updatedSourceTable);
+        // The source field gets its foreignKey from syncRelationships.
 
         toast.success(
-          `Relation created: ${sourceTable.name}.${params.sourceHandle} → ${targetTable.name}.${targetField}`,
+          `Relation created: ${sourceTable.name}.${sourceField.name} → ${targetTable.name}.${targetField.name}`,
           { description: 'Foreign key relation established' }
         );
       } catch (error) {
@@ -288,32 +354,42 @@ export function DBCanvas({ project, showGrid, onEditTable }: DBCanvasProps): JSX
       }
     },
     // Removed setEdges from dependencies as it's no longer called directly
-    [connectionsApi, tablesApi, project.tables]
+    [connectionsApi, project.tables, manyToManyMode]
   );
 
+  // Everything persisted until the drag stops is grouped into a single undo step
+  const onNodeDragStart = useCallback(() => beginHistoryGroup(), [beginHistoryGroup]);
+
   // This handles node position changes
   const onNodeDragStop = useCallback(
-    (event: React.MouseEvent, node: Node) => {
-      // Update the table position using the tables API
+    (event: React.MouseEvent, node: Node, draggedNodes: Node[]) => {
+      // Update the table positions using the tables API. All selected nodes move together.
       // Use currentProject from useProject hook
       if (currentProject && node.id) {
-        const tableToUpdate = currentProject.tables.find((table) => table.id === node.id);
-        if (tableToUpdate) {
-          tablesApi.updateTable({
-            ...tableToUpdate,
-            position: node.position,
-          });
-          // Update React Flow state immediately
-          setNodes((nds) =>
-            nds.map((n) => (n.id === node.id ? { ...n, position: node.position } : n))
-          );
-          // The project state will be updated automatically by the updateTable call
-          // via the updateProject callback passed to the hook.
-        }
+        const movedNodes = draggedNodes.length ? draggedNodes : [node];
+        movedNodes.forEach((movedNode) => {
+          const tableToUpdate = currentProject.tables.find((table) => table.id === movedNode.id);
+          if (tableToUpdate) {
+            tablesApi.updateTable({
+              ...tableToUpdate,
+              position: movedNode.position,
+            });
+          }
+        });
+        // Update React Flow state immediately
+        setNodes((nds) =>
+          nds.map((n) => {
+            const moved = movedNodes.find((m) => m.id === n.id);
+            return moved ? { ...n, position: moved.position } : n;
+          })
+        );
+        // The project state will be updated automatically by the updateTable call
+        // via the updateProject callback passed to the hook.
       }
+      endHistoryGroup();
     },
     // Use currentProject in dependency array
-    [currentProject, tablesApi, setNodes] // Added setNodes
+    [currentProject, tablesApi, setNodes, endHistoryGroup] // Added setNodes
   );
 
   // Custom handler for node changes (handles selection, position, etc.)
@@ -328,7 +404,11 @@ export function DBCanvas({ project, showGrid, onEditTable }: DBCanvasProps): JSX
       const nextChanges = changes.reduce<EdgeChange[]>((acc, change) => {
         if (change.type === 'remove') {
           // Call the API to delete the connection from the project state
-          connectionsApi.deleteConnection(change.id);
+          if (change.id.startsWith(JUNCTION_EDGE_PREFIX)) {
+            connectionsApi.deleteManyToMany(change.id.slice(JUNCTION_EDGE_PREFIX.length));
+          } else {
+            connectionsApi.deleteConnection(change.id);
+          }
           // Don't apply the removal change directly via setEdges,
           // let the project state update trigger the re-render.
           return acc;
@@ -346,8 +426,44 @@ export function DBCanvas({ project, showGrid, onEditTable }: DBCanvasProps): JSX
     [connectionsApi, edges, setEdges] // Depends on API, current edges, and the setter
   );
 
+  const onEdgeContextMenu = useCallback((event: React.MouseEvent, edge: Edge) => {
+    event.preventDefault();
+    const bounds = containerRef.current?.getBoundingClientRect();
+    if (!bounds) return;
+    // Keep the panel inside the canvas
+    setEdgeMenu({
+      connectionId: edge.id,
+      x: Math.min(event.clientX - bounds.left, bounds.width - 272),
+      y: Math.min(event.clientY - bounds.top, bounds.height - 240),
+    });
+  }, []);
+
+  const closeEdgeMenu = useCallback(() => setEdgeMenu(null), []);
+
+  const onEdgeClick = useCallback(
+    (_event: React.MouseEvent, edge: Edge) => {
+      // A collapsed link table has no connection of its own, it opens with a double click
+      if (!edge.id.startsWith(JUNCTION_EDGE_PREFIX)) onSelectConnection?.(edge.id);
+    },
+    [onSelectConnection]
+  );
+
+  const onPaneClick = useCallback(() => {
+    setEdgeMenu(null);
+    onSelectConnection?.(null);
+  }, [onSelectConnection]);
+
+  const onEdgeDoubleClick = useCallback(
+    (_event: React.MouseEvent, edge: Edge) => {
+      if (edge.id.startsWith(JUNCTION_EDGE_PREFIX)) {
+        onToggleJunction?.(edge.id.slice(JUNCTION_EDGE_PREFIX.length));
+      }
+    },
+    [onToggleJunction]
+  );
+
   return (
-    <div className="h-full w-full bg-canvas-background relative">
+    <div ref={containerRef} className="h-full w-full bg-canvas-background relative">
       {' '}
       {/* Added relative positioning */}
       {/* Moved Button outside ReactFlow and adjusted styling */}
@@ -360,12 +476,28 @@ export function DBCanvas({ project, showGrid, onEditTable }: DBCanvasProps): JSX
       >
         <LayoutDashboard className="h-4 w-4" /> {/* Added icon */}
       </Button>
+      <Button
+        variant={manyToManyMode ? 'default' : 'outline'}
+        size="icon"
+        onClick={() => setManyToManyMode((on) => !on)}
+        className="absolute left-4 top-16 z-50"
+        title="Draw many-to-many relations: drag between two tables to add a link table"
+        aria-pressed={manyToManyMode}
+      >
+        <Network className="h-4 w-4" />
+      </Button>
       <ReactFlow
         nodes={nodes}
         edges={edges}
         onNodesChange={handleNodesChange}
         onEdgesChange={handleEdgesChange} // Use custom handler
         onConnect={onConnect}
+        onEdgeClick={onEdgeClick}
+        onEdgeContextMenu={onEdgeContextMenu}
+        onEdgeDoubleClick={onEdgeDoubleClick}
+        onPaneClick={onPaneClick}
+        onInit={setFlow}
+        onNodeDragStart={onNodeDragStart}
         onNodeDragStop={onNodeDragStop}
         nodeTypes={nodeTypes}
         edgeTypes={edgeTypes}
@@ -388,6 +520,16 @@ export function DBCanvas({ project, showGrid, onEditTable }: DBCanvasProps): JSX
         <Controls />
         <MiniMap nodeStrokeColor={() => '#6366F1'} nodeColor={() => '#fff'} nodeBorderRadius={2} />
       </ReactFlow>
+      {edgeMenu && menuConnection && (
+        <ReferentialActionsPanel
+          connection={menuConnection}
+          tables={project.tables}
+          dialect={getProjectDialect(project)}
+          position={edgeMenu}
+          onChange={connectionsApi.updateConnection}
+          onClose={closeEdgeMenu}
+        />
+      )}
     </div>
   );
 }
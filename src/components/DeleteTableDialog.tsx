@@ -0,0 +1,110 @@
+import { useEffect, useState } from 'react';
+import { ForeignKeyColumnMode, TableDeletionImpact } from '@/utils/tableDeletion';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface DeleteTableDialogProps {
+  impact: TableDeletionImpact | null;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (foreignKeyColumns: ForeignKeyColumnMode) => void;
+}
+
+const FOREIGN_KEY_COLUMN_MODES: { value: ForeignKeyColumnMode; label: string }[] = [
+  { value: 'dropConstraints', label: 'Keep the columns, remove only the foreign keys' },
+  { value: 'dropColumns', label: 'Drop the columns as well' },
+];
+
+function ImpactSection({ title, items }: { title: string; items: string[] }): JSX.Element {
+  if (items.length === 0) return null;
+  return (
+    <div className="space-y-2">
+      <h4 className="font-medium">
+        {title} ({items.length})
+      </h4>
+      <ul className="space-y-1">
+        {items.map((item) => (
+          <li key={item} className="p-2 border rounded-md bg-muted/50 font-mono text-xs">
+            {item}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// Lists what a table deletion takes with it before anything is removed
+export function DeleteTableDialog({
+  impact,
+  onOpenChange,
+  onConfirm,
+}: DeleteTableDialogProps): JSX.Element {
+  const [mode, setMode] = useState<ForeignKeyColumnMode>('dropConstraints');
+
+  // Start from the safe choice for every table
+  const tableId = impact?.table.id;
+  useEffect(() => {
+    if (tableId) setMode('dropConstraints');
+  }, [tableId]);
+
+  const relations = impact?.relations.map((relation) => relation.description) ?? [];
+  const columns =
+    impact?.foreignKeyColumns.map(({ table, field }) => `${table.name}.${field.name}`) ?? [];
+  const junctionTables = impact?.junctionTables.map((table) => table.name) ?? [];
+  const unaffected = relations.length === 0 && columns.length === 0;
+
+  return (
+    <Dialog open={impact !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Delete table "{impact?.table.name}"?</DialogTitle>
+          <DialogDescription>
+            {unaffected
+              ? 'No other table references it.'
+              : 'Its relations are removed along with it. This can be undone.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!unaffected && (
+          <div className="max-h-[50vh] overflow-y-auto">
+            <div className="space-y-4 pr-2 text-sm">
+              <ImpactSection title="Relations" items={relations} />
+              <ImpactSection title="Referencing columns" items={columns} />
+              <ImpactSection title="Link tables kept as ordinary tables" items={junctionTables} />
+              {columns.length > 0 && (
+                <RadioGroup
+                  value={mode}
+                  onValueChange={(value) => setMode(value as ForeignKeyColumnMode)}
+                >
+                  {FOREIGN_KEY_COLUMN_MODES.map((option) => (
+                    <div key={option.value} className="flex items-center gap-2">
+                      <RadioGroupItem value={option.value} id={`delete-${option.value}`} />
+                      <Label htmlFor={`delete-${option.value}`}>{option.label}</Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={() => onConfirm(mode)}>
+            Delete table
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
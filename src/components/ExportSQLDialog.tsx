@@ -0,0 +1,204 @@
+import { useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { AlertTriangle, Copy, Download } from 'lucide-react';
+import { IdentifierQuoting, Project, SQLDialect, SQLExportOptions } from '@/types/schema';
+import { useProject } from '@/hooks/useProject';
+import { DEFAULT_SQL_EXPORT_OPTIONS, generateSQL } from '@/utils/sqlGenerator';
+import { IDENTIFIER_QUOTING_OPTIONS, SQL_DIALECTS, needsQuoting } from '@/utils/sqlDialects';
+import { SQLPreview } from '@/components/SQLPreview';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface ExportSQLDialogProps {
+  project: Project;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ExportSQLDialog({
+  project,
+  open,
+  onOpenChange,
+}: ExportSQLDialogProps): JSX.Element {
+  const { saveProjectSettings } = useProject();
+  const [options, setOptions] = useState<SQLExportOptions>({
+    ...DEFAULT_SQL_EXPORT_OPTIONS,
+    ...project.settings?.sqlExport,
+  });
+
+  // Start from the project's last-used options every time the dialog opens
+  const savedOptions = project.settings?.sqlExport;
+  useEffect(() => {
+    if (open) {
+      setOptions({ ...DEFAULT_SQL_EXPORT_OPTIONS, ...savedOptions });
+    }
+  }, [open, savedOptions]);
+
+  const sql = useMemo(() => (open ? generateSQL(project, options) : ''), [open, project, options]);
+
+  // Names that break the script when written without quotes
+  const unsafeNames = useMemo(
+    () =>
+      options.identifierQuoting === 'never'
+        ? [
+            ...project.tables.map((table) => table.name),
+            ...project.tables.flatMap((table) =>
+              table.fields.map((field) => `${table.name}.${field.name}`)
+            ),
+          ].filter((name) => name.split('.').some((part) => needsQuoting(part, options.dialect)))
+        : [],
+    [project.tables, options.identifierQuoting, options.dialect]
+  );
+
+  const updateOption = <K extends keyof SQLExportOptions>(
+    key: K,
+    value: SQLExportOptions[K]
+  ): void => {
+    setOptions((prev) => ({ ...prev, [key]: value }));
+  };
+
+  // Remember the options on the project once they have actually been used
+  const rememberOptions = (): void => {
+    if (JSON.stringify(options) === JSON.stringify(savedOptions)) return;
+    saveProjectSettings({ sqlExport: options });
+  };
+
+  const handleCopy = async (): Promise<void> => {
+    try {
+      await navigator.clipboard.writeText(sql);
+      rememberOptions();
+      toast.success('SQL copied to clipboard');
+    } catch (error) {
+      console.error('Failed to copy SQL:', error);
+      toast.error('Failed to copy SQL to clipboard');
+    }
+  };
+
+  const handleDownload = (): void => {
+    const blob = new Blob([sql], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${project.name.replace(/\s+/g, '_')}.${options.dialect}.sql`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+
+    rememberOptions();
+    toast.success('SQL exported successfully');
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Export SQL</DialogTitle>
+          <DialogDescription>
+            Choose a target database and review the generated script before exporting it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-4 items-end">
+          <div className="grid gap-2">
+            <Label htmlFor="export-dialect">Dialect</Label>
+            <Select
+              value={options.dialect}
+              onValueChange={(value) => updateOption('dialect', value as SQLDialect)}
+            >
+              <SelectTrigger id="export-dialect">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SQL_DIALECTS.map((dialect) => (
+                  <SelectItem key={dialect.value} value={dialect.value}>
+                    {dialect.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="export-quoting">Quote names</Label>
+            <Select
+              value={options.identifierQuoting ?? 'always'}
+              onValueChange={(value) =>
+                updateOption('identifierQuoting', value as IdentifierQuoting)
+              }
+            >
+              <SelectTrigger id="export-quoting">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {IDENTIFIER_QUOTING_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2 h-10">
+            <Switch
+              id="export-drop"
+              checked={options.includeDropStatements}
+              onCheckedChange={(checked) => updateOption('includeDropStatements', checked)}
+            />
+            <Label htmlFor="export-drop">DROP statements</Label>
+          </div>
+          <div className="flex items-center gap-2 h-10">
+            <Switch
+              id="export-timestamps"
+              checked={options.includeTimestamps}
+              onCheckedChange={(checked) => updateOption('includeTimestamps', checked)}
+            />
+            <Label htmlFor="export-timestamps">Generation date</Label>
+          </div>
+        </div>
+
+        {unsafeNames.length > 0 && (
+          <p className="flex items-start gap-2 text-sm text-amber-500">
+            <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+            <span>
+              Unquoted, these names are reserved words, lose their case or are not valid:{' '}
+              <span className="font-mono">{unsafeNames.join(', ')}</span>
+            </span>
+          </p>
+        )}
+
+        <SQLPreview sql={sql} className="h-[50vh]" />
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button variant="outline" className="flex items-center gap-2" onClick={handleCopy}>
+            <Copy className="h-4 w-4" />
+            <span>Copy</span>
+          </Button>
+          <Button className="flex items-center gap-2" onClick={handleDownload}>
+            <Download className="h-4 w-4" />
+            <span>Download</span>
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
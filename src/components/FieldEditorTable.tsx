@@ -8,6 +8,7 @@ import {
 } from '@/components/ui/table';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import {
   Select,
   SelectContent,
@@ -16,8 +17,20 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
-import { Trash2, Plus, GripVertical, Link, Unlink } from 'lucide-react';
-import { Field, COMMON_DATA_TYPES } from '@/types/schema';
+import {
+  AlertTriangle,
+  Trash2,
+  Plus,
+  GripVertical,
+  Link,
+  Unlink,
+  MessageSquareText,
+} from 'lucide-react';
+import { Field, SQLDialect, UserType } from '@/types/schema';
+import { FieldTypeEditor } from '@/components/FieldTypeEditor';
+import { getDefaultFieldType } from '@/utils/typeCatalog';
+import { DEFAULT_SQL_EXPORT_OPTIONS } from '@/utils/sqlGenerator';
+import { getReservedWordWarning } from '@/utils/validation';
 // import { useProject } from '@/hooks/useProject'; // Removed unused import
 import {
   DndContext,
@@ -46,6 +59,8 @@ interface FieldEditorTableProps {
   fields: Field[];
   onChange: (fields: Field[]) => void;
   availableTables?: { id: string; name: string; fields: Field[] }[];
+  dialect?: SQLDialect; // Selects the type catalog offered for field types
+  userTypes?: UserType[];
 }
 
 function SortableTableRow({
@@ -59,6 +74,8 @@ function SortableTableRow({
   availableTables,
   handleSetForeignKey,
   handleRemoveForeignKey,
+  dialect,
+  userTypes,
 }: {
   field: Field;
   index: number;
@@ -68,8 +85,10 @@ function SortableTableRow({
   isDragging: boolean;
   isOver: boolean;
   availableTables?: { id: string; name: string; fields: Field[] }[];
-  handleSetForeignKey: (index: number, targetTableId: string, targetFieldName: string) => void;
+  handleSetForeignKey: (index: number, targetTableId: string, targetFieldId: string) => void;
   handleRemoveForeignKey: (index: number) => void;
+  dialect: SQLDialect;
+  userTypes?: UserType[];
 }): JSX.Element {
   const { attributes, listeners, setNodeRef, transform, transition } = useSortable({
     id: field.id,
@@ -77,16 +96,19 @@ function SortableTableRow({
   const [selectedFkTableId, setSelectedFkTableId] = useState<string | undefined>(
     field.foreignKey?.tableId
   );
-  const [selectedFkFieldName, setSelectedFkFieldName] = useState<string | undefined>(
-    field.foreignKey?.fieldName
+  const [selectedFkFieldId, setSelectedFkFieldId] = useState<string | undefined>(
+    field.foreignKey?.fieldId
   );
 
   useEffect(() => {
     setSelectedFkTableId(field.foreignKey?.tableId);
-    setSelectedFkFieldName(field.foreignKey?.fieldName);
+    setSelectedFkFieldId(field.foreignKey?.fieldId);
   }, [field.foreignKey]);
 
   const targetTableFields = availableTables?.find((t) => t.id === selectedFkTableId)?.fields || [];
+  const linkedTable = availableTables?.find((t) => t.id === field.foreignKey?.tableId);
+  const linkedField = linkedTable?.fields.find((f) => f.id === field.foreignKey?.fieldId);
+  const nameWarning = getReservedWordWarning(field.name, dialect);
 
   const style = {
     transform: CSS.Transform.toString(transform),
@@ -123,29 +145,27 @@ function SortableTableRow({
         </Button>
       </TableCell>
       <TableCell className="pl-2">
-        <Input
-          value={field.name}
-          onChange={(e) => handleFieldChange(index, { name: e.target.value })}
-          placeholder="Field name"
-          className="h-8"
-        />
+        <div className="flex items-center gap-1.5">
+          <Input
+            value={field.name}
+            onChange={(e) => handleFieldChange(index, { name: e.target.value })}
+            placeholder="Field name"
+            className="h-8"
+          />
+          {nameWarning && (
+            <span title={nameWarning} aria-label={nameWarning}>
+              <AlertTriangle className="h-4 w-4 shrink-0 text-amber-500" />
+            </span>
+          )}
+        </div>
       </TableCell>
       <TableCell>
-        <Select
+        <FieldTypeEditor
           value={field.type}
-          onValueChange={(value) => handleFieldChange(index, { type: value })}
-        >
-          <SelectTrigger className="h-8">
-            <SelectValue placeholder="Select type" />
-          </SelectTrigger>
-          <SelectContent>
-            {COMMON_DATA_TYPES.map((type) => (
-              <SelectItem key={type.name} value={type.name}>
-                {type.name}
-              </SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
+          dialect={dialect}
+          userTypes={userTypes}
+          onChange={(type) => handleFieldChange(index, { type })}
+        />
       </TableCell>
       <TableCell className="text-center align-middle">
         <Checkbox
@@ -182,7 +202,7 @@ function SortableTableRow({
               className={`h-8 w-8 ${field.foreignKey ? 'text-primary hover:text-primary/90' : 'text-muted-foreground hover:text-foreground'}`}
               title={
                 field.foreignKey
-                  ? `Links to ${availableTables?.find((t) => t.id === field.foreignKey?.tableId)?.name}.${field.foreignKey.fieldName}`
+                  ? `Links to ${linkedTable?.name}.${linkedField?.name}`
                   : 'Set Foreign Key'
               }
             >
@@ -202,7 +222,7 @@ function SortableTableRow({
               value={selectedFkTableId}
               onValueChange={(value) => {
                 setSelectedFkTableId(value);
-                setSelectedFkFieldName(undefined);
+                setSelectedFkFieldId(undefined);
               }}
             >
               <SelectTrigger>
@@ -217,8 +237,8 @@ function SortableTableRow({
               </SelectContent>
             </Select>
             <Select
-              value={selectedFkFieldName}
-              onValueChange={setSelectedFkFieldName}
+              value={selectedFkFieldId}
+              onValueChange={setSelectedFkFieldId}
               disabled={!selectedFkTableId || targetTableFields.length === 0}
             >
               <SelectTrigger>
@@ -226,7 +246,7 @@ function SortableTableRow({
               </SelectTrigger>
               <SelectContent>
                 {targetTableFields.map((f) => (
-                  <SelectItem key={f.id} value={f.name}>
+                  <SelectItem key={f.id} value={f.id}>
                     {f.name} ({f.type})
                   </SelectItem>
                 ))}
@@ -244,11 +264,11 @@ function SortableTableRow({
               <Button
                 size="sm"
                 onClick={() => {
-                  if (selectedFkTableId && selectedFkFieldName) {
-                    handleSetForeignKey(index, selectedFkTableId, selectedFkFieldName);
+                  if (selectedFkTableId && selectedFkFieldId) {
+                    handleSetForeignKey(index, selectedFkTableId, selectedFkFieldId);
                   }
                 }}
-                disabled={!selectedFkTableId || !selectedFkFieldName}
+                disabled={!selectedFkTableId || !selectedFkFieldId}
               >
                 Set Link
               </Button>
@@ -256,6 +276,38 @@ function SortableTableRow({
           </PopoverContent>
         </Popover>
       </TableCell>
+      <TableCell className="text-center align-middle w-[60px]">
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className={`h-8 w-8 ${field.check || field.comment ? 'text-primary hover:text-primary/90' : 'text-muted-foreground hover:text-foreground'}`}
+              title={field.comment || 'Check and comment'}
+            >
+              <MessageSquareText
+                className={`h-4 w-4 ${field.check || field.comment ? '' : 'opacity-50'}`}
+              />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-72 p-4 space-y-3">
+            <h4 className="font-medium leading-none">Check</h4>
+            <Input
+              value={field.check ?? ''}
+              onChange={(e) => handleFieldChange(index, { check: e.target.value })}
+              placeholder={`${field.name || 'price'} >= 0`}
+              className="h-8 font-mono"
+            />
+            <h4 className="font-medium leading-none">Comment</h4>
+            <Textarea
+              value={field.comment ?? ''}
+              onChange={(e) => handleFieldChange(index, { comment: e.target.value })}
+              placeholder="What this column holds"
+              rows={3}
+            />
+          </PopoverContent>
+        </Popover>
+      </TableCell>
       <TableCell className="text-right pr-4 align-middle">
         <Button
           type="button"
@@ -276,6 +328,8 @@ export function FieldEditorTable({
   fields,
   onChange,
   availableTables,
+  dialect = DEFAULT_SQL_EXPORT_OPTIONS.dialect,
+  userTypes,
 }: FieldEditorTableProps): JSX.Element {
   const [activeId, setActiveId] = useState<string | null>(null);
   const [overId, setOverId] = useState<string | null>(null);
@@ -314,7 +368,7 @@ export function FieldEditorTable({
     const newField: Field = {
       id: uuidv4(),
       name: '',
-      type: 'VARCHAR(255)',
+      type: getDefaultFieldType(dialect),
       notNull: false,
       primary: false,
       unique: false,
@@ -340,24 +394,18 @@ export function FieldEditorTable({
       const newFields = [...fields];
       const currentId = newFields[index].id;
       newFields[index] = { ...newFields[index], ...fieldUpdate, id: currentId };
-
-      if (fieldUpdate.primary) {
-        newFields.forEach((f, i) => {
-          if (i !== index) f.primary = false;
-        });
-      }
-
+      // Several primary fields make a composite primary key
       onChange(newFields);
     },
     [fields, onChange]
   );
 
   const handleSetForeignKey = useCallback(
-    (index: number, targetTableId: string, targetFieldName: string): void => {
+    (index: number, targetTableId: string, targetFieldId: string): void => {
       const newFields = [...fields];
       newFields[index] = {
         ...newFields[index],
-        foreignKey: { tableId: targetTableId, fieldName: targetFieldName },
+        foreignKey: { tableId: targetTableId, fieldId: targetFieldId },
       };
       onChange(newFields);
     },
@@ -395,6 +443,7 @@ export function FieldEditorTable({
               <TableHead className="min-w-[120px]">Default Value</TableHead> {/* Use min-w */}
               <TableHead className="w-[50px] text-center px-1">FK</TableHead>{' '}
               {/* Slightly smaller */}
+              <TableHead className="w-[50px] text-center px-1">Notes</TableHead>
               <TableHead className="w-[50px] text-right pr-2"></TableHead>{' '}
               {/* Actions, slightly smaller */}
             </TableRow>
@@ -426,6 +475,8 @@ export function FieldEditorTable({
                         availableTables={availableTables}
                         handleSetForeignKey={handleSetForeignKey}
                         handleRemoveForeignKey={handleRemoveForeignKey}
+                        dialect={dialect}
+                        userTypes={userTypes}
                       />
                     )),
                   [
@@ -437,6 +488,8 @@ export function FieldEditorTable({
                     handleRemoveField,
                     handleSetForeignKey,
                     handleRemoveForeignKey,
+                    dialect,
+                    userTypes,
                   ]
                 )}
               </TableBody>
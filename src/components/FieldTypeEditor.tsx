@@ -0,0 +1,165 @@
+import { useEffect, useState } from 'react';
+import { SQLDialect, UserType } from '@/types/schema';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { formatTypeString, ParsedType, parseTypeString, quoteString } from '@/utils/sqlDialects';
+import {
+  findDataType,
+  parseTypeValues,
+  supportsArrayTypes,
+  TYPE_CATALOG,
+} from '@/utils/typeCatalog';
+import { findUserType } from '@/utils/userTypes';
+
+interface FieldTypeEditorProps {
+  value: string;
+  dialect: SQLDialect;
+  onChange: (type: string) => void;
+  userTypes?: UserType[]; // Project enums and domains, offered before the built-in types
+}
+
+export function FieldTypeEditor({
+  value,
+  dialect,
+  onChange,
+  userTypes = [],
+}: FieldTypeEditorProps): JSX.Element {
+  const userType = findUserType(userTypes, value);
+  // Project types keep their name as written, only built-in names are upper-cased
+  const parsed = { ...parseTypeString(value), ...(userType && { name: userType.name }) };
+  const dataType = userType ? undefined : findDataType(parsed.name, dialect);
+  const catalog = TYPE_CATALOG[dialect];
+  const selected = userType?.name ?? parsed.name;
+  const isKnown = !!userType || catalog.some((t) => t.name === parsed.name);
+
+  // Edited as free text and applied on blur, so typing a comma does not drop the next value
+  const [valuesText, setValuesText] = useState('');
+  useEffect(() => {
+    setValuesText(parseTypeValues(parseTypeString(value).args).join(', '));
+  }, [value]);
+
+  const update = (changes: Partial<ParsedType>): void => {
+    onChange(formatTypeString({ ...parsed, ...changes }));
+  };
+
+  const handleTypeChange = (name: string): void => {
+    if (userTypes.some((t) => t.name === name)) {
+      update({ name, args: [], unsigned: false });
+      return;
+    }
+    const picked = findDataType(name, dialect);
+    // Pre-fill the leading parameters that have a default, e.g. VARCHAR(255)
+    const args: string[] = [];
+    for (const param of picked?.params ?? []) {
+      if (param.default === undefined) break;
+      args.push(String(param.default));
+    }
+    update({ name, args, unsigned: parsed.unsigned && !!picked?.unsigned });
+  };
+
+  const handleParamChange = (position: number, paramValue: string): void => {
+    const args = [...parsed.args];
+    args[position] = paramValue.trim();
+    // Trailing empty parameters are left out, the database default applies
+    while (args.length && !args[args.length - 1]) args.pop();
+    update({ args: Array.from(args, (arg) => arg ?? '') });
+  };
+
+  const handleValuesBlur = (): void => {
+    const values = valuesText
+      .split(',')
+      .map((v) => v.trim())
+      .filter(Boolean);
+    update({ args: values.map(quoteString) });
+  };
+
+  return (
+    <div className="space-y-1">
+      <Select value={selected} onValueChange={handleTypeChange}>
+        <SelectTrigger className="h-8">
+          <SelectValue placeholder="Select type" />
+        </SelectTrigger>
+        <SelectContent>
+          {userTypes.length > 0 && (
+            <>
+              <SelectGroup>
+                <SelectLabel>Project types</SelectLabel>
+                {userTypes.map((type) => (
+                  <SelectItem key={type.id} value={type.name}>
+                    {type.name}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+              <SelectSeparator />
+            </>
+          )}
+          {catalog.map((type) => (
+            <SelectItem key={type.name} value={type.name}>
+              {type.name}
+            </SelectItem>
+          ))}
+          {!isKnown && parsed.name && <SelectItem value={parsed.name}>{parsed.name}</SelectItem>}
+        </SelectContent>
+      </Select>
+
+      {(dataType?.params?.length ||
+        dataType?.values ||
+        dataType?.unsigned ||
+        supportsArrayTypes(dialect)) && (
+        <div className="flex flex-wrap items-center gap-2">
+          {dataType?.params?.map((param, position) => (
+            <Input
+              key={param.kind}
+              type="number"
+              min={param.min}
+              max={param.max}
+              value={parsed.args[position] ?? ''}
+              onChange={(e) => handleParamChange(position, e.target.value)}
+              placeholder={param.kind}
+              title={`${param.kind} (${param.min}-${param.max})`}
+              className="h-7 w-20 text-xs"
+            />
+          ))}
+          {dataType?.values && (
+            <Input
+              value={valuesText}
+              onChange={(e) => setValuesText(e.target.value)}
+              onBlur={handleValuesBlur}
+              placeholder="a, b, c"
+              title="Allowed values, separated by commas"
+              className="h-7 text-xs"
+            />
+          )}
+          {dataType?.unsigned && (
+            <label className="flex items-center gap-1 text-xs text-muted-foreground">
+              <Checkbox
+                checked={parsed.unsigned}
+                onCheckedChange={(checked) => update({ unsigned: checked === true })}
+              />
+              Unsigned
+            </label>
+          )}
+          {supportsArrayTypes(dialect) && (
+            <label className="flex items-center gap-1 text-xs text-muted-foreground">
+              <Checkbox
+                checked={parsed.array}
+                onCheckedChange={(checked) => update({ array: checked === true })}
+              />
+              Array
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,18 @@
-import { getBezierPath, EdgeProps, Position } from 'reactflow';
+import { useCallback, useMemo } from 'react';
+import {
+  getBezierPath,
+  getSmoothStepPath,
+  getStraightPath,
+  internalsSymbol,
+  useStore,
+  EdgeProps,
+  Node,
+  Position,
+  ReactFlowState,
+} from 'reactflow';
+import { EdgeRouting, ERNotation } from '@/types/schema';
+import { RelationshipEnd, RelationshipEnds, formatMultiplicity } from '@/utils/erNotation';
+import { Rect, pickFacingSides, routeOrthogonal, sameRects, toSvgPath } from '@/utils/edgeRouting';
 
 // Define the props specifically for FloatingEdge
 interface FloatingEdgeProps extends EdgeProps {
@@ -9,12 +23,213 @@ interface FloatingEdgeProps extends EdgeProps {
   sourcePosition: Position;
   targetPosition: Position;
   data?: {
-    relationshipType?: 'oneToOne' | 'oneToMany';
+    relationshipType?: 'oneToOne' | 'oneToMany' | 'manyToMany';
+    junctionName?: string; // Link table behind a collapsed many-to-many edge
+    notation?: ERNotation;
+    ends?: RelationshipEnds; // Source is the parent side, target the child side
+    routing?: EdgeRouting;
   };
 }
 
+interface Anchor {
+  x: number;
+  y: number;
+  position: Position;
+}
+
+const RELATIONSHIP_LABELS = { oneToOne: '1:1', oneToMany: '1:N', manyToMany: 'N:M' };
+
+const STROKE = 'hsl(var(--primary))';
+const BACKGROUND = 'hsl(var(--canvas-background))';
+
+// Markers are drawn pointing right and turned to leave the handle's side of the node
+const HANDLE_ANGLES: Record<Position, number> = {
+  [Position.Right]: 0,
+  [Position.Bottom]: 90,
+  [Position.Left]: 180,
+  [Position.Top]: -90,
+};
+
+// Box of a rendered node, unknown until React Flow has measured it
+const nodeRect = (node?: Node): Rect | undefined =>
+  node?.width && node.height && node.positionAbsolute
+    ? { ...node.positionAbsolute, width: node.width, height: node.height }
+    : undefined;
+
+// Where an edge end sits on a table, selected from the store so an edge only re-renders when
+// one of its own tables moves
+interface NodeEnd {
+  rect: Rect;
+  handleOffset?: number; // Middle of the field's handle, from the top of the table
+  dragging: boolean;
+}
+
+const sameNodeEnd = (a: NodeEnd | undefined, b: NodeEnd | undefined): boolean =>
+  a === b ||
+  (!!a &&
+    !!b &&
+    sameRects([a.rect], [b.rect]) &&
+    a.handleOffset === b.handleOffset &&
+    a.dragging === b.dragging);
+
+const useNodeEnd = (nodeId: string, handleId: string | null | undefined): NodeEnd | undefined =>
+  useStore(
+    useCallback(
+      (state: ReactFlowState) => {
+        const node = state.nodeInternals.get(nodeId);
+        const rect = nodeRect(node);
+        if (!node || !rect) return undefined;
+        const bounds = node[internalsSymbol]?.handleBounds;
+        const handle = [...(bounds?.source ?? []), ...(bounds?.target ?? [])].find(
+          (h) => h.id === handleId
+        );
+        return {
+          rect,
+          handleOffset: handle ? handle.y + handle.height / 2 : undefined,
+          dragging: !!node.dragging,
+        };
+      },
+      [nodeId, handleId]
+    ),
+    sameNodeEnd
+  );
+
+// Tables an orthogonal edge routes around. Tables being dragged are left out until they are
+// dropped, so edges elsewhere keep their route during the drag.
+const selectObstacles = (state: ReactFlowState): Rect[] =>
+  Array.from(state.nodeInternals.values())
+    .filter((node) => !node.hidden && !node.dragging)
+    .map(nodeRect)
+    .filter((rect): rect is Rect => !!rect);
+
+const NO_OBSTACLES: Rect[] = [];
+const selectNoObstacles = (): Rect[] => NO_OBSTACLES;
+
+const buildPath = (routing: EdgeRouting, from: Anchor, to: Anchor, obstacles: Rect[]): string => {
+  const ends = {
+    sourceX: from.x,
+    sourceY: from.y,
+    sourcePosition: from.position,
+    targetX: to.x,
+    targetY: to.y,
+    targetPosition: to.position,
+  };
+  switch (routing) {
+    case 'straight':
+      return getStraightPath(ends)[0];
+    case 'smoothstep':
+      return getSmoothStepPath(ends)[0];
+    case 'orthogonal':
+      return toSvgPath(
+        routeOrthogonal(
+          from,
+          from.position === Position.Left ? 'left' : 'right',
+          to,
+          to.position === Position.Left ? 'left' : 'right',
+          obstacles
+        )
+      );
+    default:
+      return getBezierPath(ends)[0];
+  }
+};
+
+// Text is not rotated, it only moves to the outer side of the handle
+function EndLabel({
+  x,
+  y,
+  position,
+  children,
+}: {
+  x: number;
+  y: number;
+  position: Position;
+  children: string;
+}): JSX.Element {
+  const left = position === Position.Left;
+  return (
+    <text
+      x={x + (left ? -8 : 8)}
+      y={y - 7}
+      textAnchor={left ? 'end' : 'start'}
+      style={{ fontSize: 10, fill: STROKE, fontWeight: 'bold' }}
+    >
+      {children}
+    </text>
+  );
+}
+
+function EndMarker({
+  x,
+  y,
+  position,
+  end,
+  role,
+  notation,
+}: {
+  x: number;
+  y: number;
+  position: Position;
+  end: RelationshipEnd;
+  role: 'parent' | 'child';
+  notation: ERNotation;
+}): JSX.Element | null {
+  if (notation === 'uml') {
+    return (
+      <EndLabel x={x} y={y} position={position}>
+        {formatMultiplicity(end)}
+      </EndLabel>
+    );
+  }
+
+  let shapes: JSX.Element;
+  if (notation === 'crowsFoot') {
+    // Maximum next to the table, minimum further out
+    shapes = (
+      <>
+        <path d={end.many ? 'M0,-7 L14,0 M0,7 L14,0' : 'M10,-7 L10,7'} />
+        {end.optional ? <circle cx={20} r={4} fill={BACKGROUND} /> : <path d="M18,-7 L18,7" />}
+      </>
+    );
+  } else if (notation === 'idef1x') {
+    // A dot marks the child side, a hollow diamond an optional parent
+    if (end.many || role === 'child') {
+      shapes = <circle cx={4} r={4} fill={STROKE} />;
+    } else if (end.optional) {
+      shapes = <path d="M0,0 L7,-5 L14,0 L7,5 Z" fill={BACKGROUND} />;
+    } else {
+      return null;
+    }
+  } else {
+    return null;
+  }
+
+  return (
+    <>
+      <g
+        transform={`translate(${x} ${y}) rotate(${HANDLE_ANGLES[position]})`}
+        stroke={STROKE}
+        strokeWidth={1.5}
+        fill="none"
+      >
+        {shapes}
+      </g>
+      {/* IDEF1X: Z is "zero or one" */}
+      {notation === 'idef1x' && role === 'child' && !end.many && (
+        <EndLabel x={x} y={y} position={position}>
+          Z
+        </EndLabel>
+      )}
+    </>
+  );
+}
+
 export const FloatingEdge = ({
   id,
+  source,
+  target,
+  sourceHandleId,
+  targetHandleId,
   sourceX,
   sourceY,
   targetX,
@@ -25,14 +240,54 @@ export const FloatingEdge = ({
   data,
   markerEnd,
 }: FloatingEdgeProps): JSX.Element => {
-  const [edgePath] = getBezierPath({
-    sourceX,
-    sourceY,
-    sourcePosition,
-    targetX,
-    targetY,
-    targetPosition,
-  });
+  const notation = data?.notation ?? 'simple';
+  const ends = notation === 'simple' ? undefined : data?.ends;
+  // ER notations draw non-identifying relations dashed, the simple style dashes 1:N
+  const dashed =
+    notation === 'simple'
+      ? data?.relationshipType === 'oneToMany'
+      : notation !== 'uml' && !!ends && !ends.identifying;
+
+  // Attach to the facing sides of the two tables instead of the fixed handle sides
+  const sourceEnd = useNodeEnd(source, sourceHandleId);
+  const targetEnd = useNodeEnd(target, targetHandleId);
+  let from: Anchor = { x: sourceX, y: sourceY, position: sourcePosition };
+  let to: Anchor = { x: targetX, y: targetY, position: targetPosition };
+  if (sourceEnd && targetEnd) {
+    const { rect: sourceRect, handleOffset: sourceOffset } = sourceEnd;
+    const { rect: targetRect, handleOffset: targetOffset } = targetEnd;
+    const { sourceSide, targetSide } = pickFacingSides(sourceRect, targetRect, source === target);
+    from = {
+      x: sourceSide === 'right' ? sourceRect.x + sourceRect.width : sourceRect.x,
+      y: sourceOffset === undefined ? sourceY : sourceRect.y + sourceOffset,
+      position: sourceSide === 'right' ? Position.Right : Position.Left,
+    };
+    to = {
+      x: targetSide === 'right' ? targetRect.x + targetRect.width : targetRect.x,
+      y: targetOffset === undefined ? targetY : targetRect.y + targetOffset,
+      position: targetSide === 'right' ? Position.Right : Position.Left,
+    };
+  }
+
+  // Orthogonal routing searches a grid, so it waits until a dragged table is dropped
+  const dragging = !!sourceEnd?.dragging || !!targetEnd?.dragging;
+  const routing =
+    data?.routing === 'orthogonal' && dragging ? 'smoothstep' : (data?.routing ?? 'bezier');
+  const obstacles = useStore(
+    routing === 'orthogonal' ? selectObstacles : selectNoObstacles,
+    sameRects
+  );
+  const edgePath = useMemo(
+    () =>
+      buildPath(
+        routing,
+        { x: from.x, y: from.y, position: from.position },
+        { x: to.x, y: to.y, position: to.position },
+        obstacles
+      ),
+    // The anchors are rebuilt on every render, their coordinates are what matters
+    [routing, from.x, from.y, from.position, to.x, to.y, to.position, obstacles]
+  );
 
   return (
     <>
@@ -42,25 +297,55 @@ export const FloatingEdge = ({
           ...style,
           strokeWidth: 2,
           stroke: 'hsl(var(--primary))',
-          strokeDasharray: data?.relationshipType === 'oneToMany' ? '5 5' : undefined,
+          strokeDasharray: dashed ? '5 5' : undefined,
         }}
         className="react-flow__edge-path"
         d={edgePath}
-        markerEnd={markerEnd}
-      />
-      {/* Optional: Add text label back if needed, ensuring it uses props correctly */}
-      <text
-        dy={-5}
-        style={{
-          fontSize: 10,
-          fill: 'hsl(var(--primary))',
-          fontWeight: 'bold',
-        }}
+        markerEnd={ends ? undefined : markerEnd}
       >
-        <textPath href={`#${id}`} startOffset="50%" textAnchor="middle">
-          {data?.relationshipType === 'oneToMany' ? '1:N' : '1:1'}
-        </textPath>
-      </text>
+        {data?.junctionName && <title>{`Via ${data.junctionName}, double-click to show`}</title>}
+      </path>
+      {/* Wider invisible copy, so the edge is easier to click */}
+      <path
+        d={edgePath}
+        fill="none"
+        strokeOpacity={0}
+        strokeWidth={20}
+        className="react-flow__edge-interaction"
+      />
+      {ends ? (
+        <>
+          <EndMarker
+            x={from.x}
+            y={from.y}
+            position={from.position}
+            end={ends.parent}
+            role="parent"
+            notation={notation}
+          />
+          <EndMarker
+            x={to.x}
+            y={to.y}
+            position={to.position}
+            end={ends.child}
+            role="child"
+            notation={notation}
+          />
+        </>
+      ) : (
+        <text
+          dy={-5}
+          style={{
+            fontSize: 10,
+            fill: 'hsl(var(--primary))',
+            fontWeight: 'bold',
+          }}
+        >
+          <textPath href={`#${id}`} startOffset="50%" textAnchor="middle">
+            {RELATIONSHIP_LABELS[data?.relationshipType ?? 'oneToOne']}
+          </textPath>
+        </text>
+      )}
     </>
   );
 };
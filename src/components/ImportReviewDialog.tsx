@@ -0,0 +1,166 @@
+import { useEffect, useMemo, useState } from 'react';
+import { SchemaChange } from '@/utils/schemaMerge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface ImportReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  changes: SchemaChange[];
+  warnings?: string[];
+  onApply: (accepted: SchemaChange[]) => void;
+}
+
+const CHANGE_LABELS: Record<SchemaChange['kind'], string> = {
+  addTable: 'New table',
+  addField: 'New column',
+  modifyField: 'Changed column',
+  addRelation: 'Relation',
+};
+
+const nullability = (notNull: boolean): string => (notNull ? 'NOT NULL' : 'NULL');
+
+const describeChange = (change: SchemaChange): string => {
+  switch (change.kind) {
+    case 'addTable':
+      return `${change.tableName} (${change.table.fields.length} columns)`;
+    case 'addField':
+      return `${change.tableName}.${change.field.name} ${change.field.type}`;
+    case 'modifyField': {
+      const details = change.differences.map((difference) =>
+        difference === 'type'
+          ? `${change.before.type} → ${change.after.type}`
+          : `${nullability(change.before.notNull)} → ${nullability(change.after.notNull)}`
+      );
+      return `${change.tableName}.${change.fieldName}: ${details.join(', ')}`;
+    }
+    case 'addRelation': {
+      const { relation, previousTarget } = change;
+      const target = `${relation.targetTable}.${relation.targetField}`;
+      return previousTarget
+        ? `${relation.sourceTable}.${relation.sourceField}: ${previousTarget.targetTable}.${previousTarget.targetField} → ${target}`
+        : `${relation.sourceTable}.${relation.sourceField} → ${target}`;
+    }
+  }
+};
+
+export function ImportReviewDialog({
+  open,
+  onOpenChange,
+  changes,
+  warnings = [],
+  onApply,
+}: ImportReviewDialogProps): JSX.Element {
+  const [rejected, setRejected] = useState<Set<string>>(new Set());
+
+  // Every change starts out accepted
+  useEffect(() => {
+    if (open) {
+      setRejected(new Set());
+    }
+  }, [open]);
+
+  const acceptedCount = changes.length - rejected.size;
+  const sections = useMemo(
+    () =>
+      (Object.keys(CHANGE_LABELS) as SchemaChange['kind'][])
+        .map((kind) => ({ kind, items: changes.filter((change) => change.kind === kind) }))
+        .filter((section) => section.items.length > 0),
+    [changes]
+  );
+
+  const toggleChange = (id: string, accepted: boolean): void => {
+    setRejected((prev) => {
+      const next = new Set(prev);
+      if (accepted) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Review Import</DialogTitle>
+          <DialogDescription>
+            Choose which changes to merge into this project. Tables that are not part of the import
+            are kept as they are.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">
+            {acceptedCount} of {changes.length} changes selected
+          </span>
+          <div className="flex gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setRejected(new Set())}>
+              Select all
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setRejected(new Set(changes.map((change) => change.id)))}
+            >
+              Select none
+            </Button>
+          </div>
+        </div>
+
+        <div className="max-h-[50vh] overflow-y-auto">
+          <div className="space-y-4 pr-2 text-sm">
+            {sections.map((section) => (
+              <div key={section.kind} className="space-y-2">
+                <h4 className="font-medium">
+                  {CHANGE_LABELS[section.kind]}s ({section.items.length})
+                </h4>
+                {section.items.map((change) => (
+                  <label
+                    key={change.id}
+                    className="flex items-center gap-3 p-2 border rounded-md bg-muted/50 cursor-pointer"
+                  >
+                    <Checkbox
+                      checked={!rejected.has(change.id)}
+                      onCheckedChange={(checked) => toggleChange(change.id, checked === true)}
+                    />
+                    <span className="font-mono text-xs">{describeChange(change)}</span>
+                  </label>
+                ))}
+              </div>
+            ))}
+            {warnings.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="font-medium">Warnings ({warnings.length})</h4>
+                <ul className="list-disc pl-5 space-y-1 text-muted-foreground">
+                  {warnings.map((warning, index) => (
+                    <li key={index}>{warning}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            disabled={acceptedCount === 0}
+            onClick={() => onApply(changes.filter((change) => !rejected.has(change.id)))}
+          >
+            Apply {acceptedCount} {acceptedCount === 1 ? 'change' : 'changes'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,220 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Plus, Trash2, X } from 'lucide-react';
+import { Field, IndexColumn, IndexMethod, TableIndex } from '@/types/schema';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { getIndexName, INDEX_METHODS } from '@/utils/tableIndexes';
+
+interface IndexesEditorProps {
+  tableName: string;
+  fields: Field[];
+  indexes: TableIndex[];
+  onChange: (indexes: TableIndex[]) => void;
+}
+
+// Select value of a column that holds an expression instead of a field
+const EXPRESSION_VALUE = '__expression';
+
+export function IndexesEditor({
+  tableName,
+  fields,
+  indexes,
+  onChange,
+}: IndexesEditorProps): JSX.Element {
+  const namedFields = fields.filter((field) => field.name.trim());
+
+  const updateIndex = (id: string, update: Partial<TableIndex>): void => {
+    onChange(indexes.map((index) => (index.id === id ? { ...index, ...update } : index)));
+  };
+
+  const updateColumn = (
+    index: TableIndex,
+    position: number,
+    update: Partial<IndexColumn>
+  ): void => {
+    updateIndex(index.id, {
+      columns: index.columns.map((column, i) =>
+        i === position ? { ...column, ...update } : column
+      ),
+    });
+  };
+
+  const handleColumnSource = (index: TableIndex, position: number, value: string): void => {
+    updateColumn(
+      index,
+      position,
+      value === EXPRESSION_VALUE
+        ? { fieldId: undefined, expression: '' }
+        : { fieldId: value, expression: undefined }
+    );
+  };
+
+  const handleAddColumn = (index: TableIndex): void => {
+    const unused = namedFields.find((f) => !index.columns.some((c) => c.fieldId === f.id));
+    updateIndex(index.id, {
+      columns: [...index.columns, { fieldId: unused?.id, order: 'asc' }],
+    });
+  };
+
+  const handleAddIndex = (): void => {
+    onChange([
+      ...indexes,
+      {
+        id: uuidv4(),
+        columns: namedFields[0] ? [{ fieldId: namedFields[0].id, order: 'asc' }] : [],
+        unique: false,
+      },
+    ]);
+  };
+
+  return (
+    <div className="space-y-4">
+      {indexes.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No indexes yet. Primary keys and unique constraints are indexed by the database already.
+        </p>
+      )}
+
+      {indexes.map((index) => (
+        <div key={index.id} className="p-3 border rounded-md space-y-3">
+          <div className="flex items-center gap-2">
+            <Input
+              value={index.name ?? ''}
+              onChange={(e) => updateIndex(index.id, { name: e.target.value })}
+              placeholder={getIndexName({ name: tableName || 'table', fields }, index)}
+              className="h-8"
+            />
+            <div className="flex items-center gap-2 shrink-0">
+              <Checkbox
+                id={`index-unique-${index.id}`}
+                checked={index.unique}
+                onCheckedChange={(checked) => updateIndex(index.id, { unique: checked === true })}
+              />
+              <Label htmlFor={`index-unique-${index.id}`}>Unique</Label>
+            </div>
+            <Select
+              value={index.method ?? 'btree'}
+              onValueChange={(value) => updateIndex(index.id, { method: value as IndexMethod })}
+            >
+              <SelectTrigger className="h-8 w-28 shrink-0" title="Index method (PostgreSQL)">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {INDEX_METHODS.map((method) => (
+                  <SelectItem key={method} value={method}>
+                    {method}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0"
+              onClick={() => onChange(indexes.filter((i) => i.id !== index.id))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            {index.columns.map((column, position) => (
+              <div key={position} className="flex items-center gap-2">
+                <span className="w-5 text-xs text-muted-foreground">{position + 1}.</span>
+                <Select
+                  value={column.expression !== undefined ? EXPRESSION_VALUE : column.fieldId}
+                  onValueChange={(value) => handleColumnSource(index, position, value)}
+                >
+                  <SelectTrigger className="h-8 w-40">
+                    <SelectValue placeholder="Column" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {namedFields.map((field) => (
+                      <SelectItem key={field.id} value={field.id}>
+                        {field.name}
+                      </SelectItem>
+                    ))}
+                    <SelectItem value={EXPRESSION_VALUE}>Expression…</SelectItem>
+                  </SelectContent>
+                </Select>
+                {column.expression !== undefined && (
+                  <Input
+                    value={column.expression}
+                    onChange={(e) => updateColumn(index, position, { expression: e.target.value })}
+                    placeholder="lower(email)"
+                    className="h-8 font-mono"
+                  />
+                )}
+                <Select
+                  value={column.order}
+                  onValueChange={(value) =>
+                    updateColumn(index, position, { order: value as IndexColumn['order'] })
+                  }
+                >
+                  <SelectTrigger className="h-8 w-24 shrink-0">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="asc">ASC</SelectItem>
+                    <SelectItem value="desc">DESC</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  onClick={() =>
+                    updateIndex(index.id, {
+                      columns: index.columns.filter((_, i) => i !== position),
+                    })
+                  }
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={() => handleAddColumn(index)}
+              className="flex items-center gap-2"
+            >
+              <Plus className="h-4 w-4" />
+              Add Column
+            </Button>
+          </div>
+
+          <Input
+            value={index.where ?? ''}
+            onChange={(e) => updateIndex(index.id, { where: e.target.value })}
+            placeholder="WHERE predicate for a partial index, e.g. deleted_at IS NULL"
+            className="h-8 font-mono"
+          />
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        size="sm"
+        variant="outline"
+        onClick={handleAddIndex}
+        className="flex items-center gap-2"
+      >
+        <Plus className="h-4 w-4" />
+        Add Index
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+import { useEffect, useMemo, useState } from 'react';
+import { produce } from 'immer';
+import { toast } from 'sonner';
+import { NamingConvention, NamingSettings, Project } from '@/types/schema';
+import { useProject } from '@/hooks/useProject';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DEFAULT_NAMING_SETTINGS,
+  NAMING_CONVENTIONS,
+  TABLE_NAME_NUMBERS,
+  applyNamingConventions,
+  planConventionRenames,
+} from '@/utils/namingConventions';
+import { lintProject } from '@/utils/schemaLinter';
+
+interface NamingConventionsDialogProps {
+  project: Project;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function NamingConventionsDialog({
+  project,
+  open,
+  onOpenChange,
+}: NamingConventionsDialogProps): JSX.Element {
+  const { updateFullProject } = useProject();
+  const [settings, setSettings] = useState<NamingSettings>(DEFAULT_NAMING_SETTINGS);
+  const [rejected, setRejected] = useState<Set<string>>(new Set());
+
+  const savedSettings = project.settings?.naming;
+  useEffect(() => {
+    if (open) {
+      setSettings(savedSettings ?? DEFAULT_NAMING_SETTINGS);
+      setRejected(new Set());
+    }
+  }, [open, savedSettings]);
+
+  const renames = useMemo(() => planConventionRenames(project, settings), [project, settings]);
+  const accepted = renames.filter((rename) => !rejected.has(rename.id));
+
+  const update = (changes: Partial<NamingSettings>): void => {
+    setSettings((prev) => ({ ...prev, ...changes }));
+  };
+
+  const toggleRename = (id: string, checked: boolean): void => {
+    setRejected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  // Settings and renames are one change, undone together
+  const handleSave = (): void => {
+    // Leaving out some renames can leave two names equal
+    const duplicates = (p: Project): number =>
+      lintProject(p).filter((problem) => problem.rule === 'duplicate-name').length;
+    const renamed = produce(project, (draft) => applyNamingConventions(draft, settings, accepted));
+    if (duplicates(renamed) > duplicates(project)) {
+      toast.error('These renames would give two tables or columns the same name');
+      return;
+    }
+    updateFullProject((draft) => applyNamingConventions(draft, settings, accepted));
+    toast.success(
+      accepted.length > 0
+        ? `Renamed ${accepted.length} ${accepted.length === 1 ? 'name' : 'names'}`
+        : 'Naming conventions saved'
+    );
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Naming Conventions</DialogTitle>
+          <DialogDescription>
+            Checked by the Problems panel. Saving renames the selected tables and columns; their
+            relations stay connected.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="grid gap-1.5">
+            <Label>Case</Label>
+            <Select
+              value={settings.case}
+              onValueChange={(value) => update({ case: value as NamingConvention })}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {NAMING_CONVENTIONS.map((convention) => (
+                  <SelectItem key={convention.value} value={convention.value}>
+                    {convention.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-1.5">
+            <Label>Table names</Label>
+            <Select
+              value={settings.tableNames}
+              onValueChange={(value) =>
+                update({ tableNames: value as NamingSettings['tableNames'] })
+              }
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TABLE_NAME_NUMBERS.map((number) => (
+                  <SelectItem key={number.value} value={number.value}>
+                    {number.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-1.5">
+            <Label htmlFor="naming-fk">Foreign key columns</Label>
+            <Input
+              id="naming-fk"
+              className="h-8 font-mono"
+              value={settings.foreignKeyPattern}
+              onChange={(e) => update({ foreignKeyPattern: e.target.value })}
+            />
+          </div>
+          <div className="grid gap-1.5">
+            <Label htmlFor="naming-pk">Primary key column</Label>
+            <Input
+              id="naming-pk"
+              className="h-8 font-mono"
+              value={settings.primaryKeyName}
+              onChange={(e) => update({ primaryKeyName: e.target.value })}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          <span className="font-mono">{'{table}'}</span> stands for the singular table name,{' '}
+          <span className="font-mono">{'{column}'}</span> for the referenced column.
+        </p>
+
+        <div className="space-y-2 text-sm">
+          <h4 className="font-medium">
+            Renames ({accepted.length} of {renames.length})
+          </h4>
+          <div className="max-h-[35vh] overflow-y-auto space-y-1 pr-2">
+            {renames.length === 0 && (
+              <p className="text-muted-foreground py-2">All names follow these conventions.</p>
+            )}
+            {renames.map((rename) => (
+              <label
+                key={rename.id}
+                className="flex items-center gap-3 p-2 border rounded-md bg-muted/50 cursor-pointer"
+              >
+                <Checkbox
+                  checked={!rejected.has(rename.id)}
+                  onCheckedChange={(checked) => toggleRename(rename.id, checked === true)}
+                />
+                <span className="font-mono text-xs">
+                  {rename.before} → {rename.after}
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>
+            {accepted.length > 0 ? `Save and rename ${accepted.length}` : 'Save conventions'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,71 @@
+import { AlertTriangle, CheckCircle2, Info, X, XCircle } from 'lucide-react';
+import { LINT_RULES, LintProblem, LintSeverity, countProblems } from '@/utils/schemaLinter';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+
+interface ProblemsPanelProps {
+  problems: LintProblem[];
+  onSelectProblem: (problem: LintProblem) => void;
+  onClose: () => void;
+}
+
+const SEVERITY_ICONS: Record<LintSeverity, JSX.Element> = {
+  error: <XCircle className="h-4 w-4 shrink-0 text-destructive" />,
+  warning: <AlertTriangle className="h-4 w-4 shrink-0 text-amber-500" />,
+  info: <Info className="h-4 w-4 shrink-0 text-blue-500" />,
+};
+
+const RULE_LABELS = Object.fromEntries(LINT_RULES.map((rule) => [rule.id, rule.label]));
+
+// Linter results below the canvas; clicking one brings its table into view
+export function ProblemsPanel({
+  problems,
+  onSelectProblem,
+  onClose,
+}: ProblemsPanelProps): JSX.Element {
+  return (
+    <div className="h-48 border-t bg-card flex flex-col">
+      <div className="flex items-center justify-between px-4 py-1.5 border-b">
+        <div className="flex items-center gap-3 text-sm">
+          <span className="font-medium">Problems</span>
+          {(['error', 'warning', 'info'] as const).map((severity) => (
+            <span key={severity} className="flex items-center gap-1 text-muted-foreground">
+              {SEVERITY_ICONS[severity]}
+              {countProblems(problems, severity)}
+            </span>
+          ))}
+        </div>
+        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      {problems.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center gap-2 text-sm text-muted-foreground">
+          <CheckCircle2 className="h-4 w-4 text-green-500" />
+          No problems found
+        </div>
+      ) : (
+        <ScrollArea className="flex-1">
+          <ul className="py-1">
+            {problems.map((problem) => (
+              <li key={problem.id}>
+                <button
+                  type="button"
+                  className="w-full flex items-center gap-2 px-4 py-1 text-left text-sm hover:bg-muted/50 disabled:cursor-default"
+                  disabled={!problem.tableId}
+                  onClick={() => onSelectProblem(problem)}
+                >
+                  {SEVERITY_ICONS[problem.severity]}
+                  <span className="flex-1 truncate">{problem.message}</span>
+                  <span className="text-xs text-muted-foreground shrink-0">
+                    {RULE_LABELS[problem.rule]}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </ScrollArea>
+      )}
+    </div>
+  );
+}
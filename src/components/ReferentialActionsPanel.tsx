@@ -0,0 +1,103 @@
+import { X } from 'lucide-react';
+import { Connection, ReferentialAction, SQLDialect, TableNode } from '@/types/schema';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { REFERENTIAL_ACTIONS, describeConnection } from '@/utils/relationships';
+import { validateConnection } from '@/utils/validation';
+
+interface ReferentialActionsPanelProps {
+  connection: Connection;
+  tables: TableNode[];
+  dialect: SQLDialect;
+  position: { x: number; y: number }; // Relative to the canvas container
+  onChange: (connection: Connection) => void;
+  onClose: () => void;
+}
+
+// Select has no empty value, this stands for "leave it to the database"
+const DATABASE_DEFAULT = 'default';
+
+export function ActionSelect({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value?: ReferentialAction;
+  onChange: (action: ReferentialAction | undefined) => void;
+}): JSX.Element {
+  return (
+    <div className="grid gap-1.5">
+      <Label className="text-xs">{label}</Label>
+      <Select
+        value={value ?? DATABASE_DEFAULT}
+        onValueChange={(picked) =>
+          onChange(picked === DATABASE_DEFAULT ? undefined : (picked as ReferentialAction))
+        }
+      >
+        <SelectTrigger className="h-8">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={DATABASE_DEFAULT}>Database default</SelectItem>
+          {REFERENTIAL_ACTIONS.map((action) => (
+            <SelectItem key={action} value={action}>
+              {action}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+export function ReferentialActionsPanel({
+  connection,
+  tables,
+  dialect,
+  position,
+  onChange,
+  onClose,
+}: ReferentialActionsPanelProps): JSX.Element {
+  // Changes that break validation are refused, but the table may have changed since
+  const { errors } = validateConnection(connection, tables, dialect);
+
+  return (
+    <div
+      className="absolute z-50 w-64 rounded-md border bg-popover p-3 text-popover-foreground shadow-md space-y-3"
+      style={{ left: position.x, top: position.y }}
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div className="text-sm font-medium font-mono break-all">
+          {describeConnection(connection, tables)}
+        </div>
+        <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      <ActionSelect
+        label="On delete"
+        value={connection.onDelete}
+        onChange={(onDelete) => onChange({ ...connection, onDelete })}
+      />
+      <ActionSelect
+        label="On update"
+        value={connection.onUpdate}
+        onChange={(onUpdate) => onChange({ ...connection, onUpdate })}
+      />
+      {errors.map((error) => (
+        <p key={error} className="text-xs text-destructive">
+          {error}
+        </p>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { Fragment, useMemo } from 'react';
+
+interface SQLPreviewProps {
+  sql: string;
+  className?: string;
+}
+
+type TokenKind = 'keyword' | 'string' | 'number' | 'comment' | 'identifier' | 'plain';
+
+const SQL_KEYWORDS = new Set([
+  'ADD',
+  'ALTER',
+  'AS',
+  'ASC',
+  'AUTO_INCREMENT',
+  'AUTOINCREMENT',
+  'BY',
+  'CASCADE',
+  'CHECK',
+  'COMMENT',
+  'CONSTRAINT',
+  'CREATE',
+  'DEFAULT',
+  'DELETE',
+  'DESC',
+  'DOMAIN',
+  'DROP',
+  'ENUM',
+  'EXISTS',
+  'FOREIGN',
+  'GENERATED',
+  'IDENTITY',
+  'IF',
+  'INDEX',
+  'KEY',
+  'NO',
+  'NOT',
+  'NULL',
+  'ON',
+  'PRAGMA',
+  'PRIMARY',
+  'REFERENCES',
+  'RESTRICT',
+  'SET',
+  'TABLE',
+  'TYPE',
+  'UNIQUE',
+  'UPDATE',
+  'USING',
+  'WHERE',
+]);
+
+const TOKEN_CLASSES: Record<TokenKind, string> = {
+  keyword: 'text-sky-600 dark:text-sky-400 font-semibold',
+  string: 'text-amber-700 dark:text-amber-300',
+  number: 'text-purple-600 dark:text-purple-300',
+  comment: 'text-muted-foreground italic',
+  identifier: 'text-emerald-700 dark:text-emerald-300',
+  plain: '',
+};
+
+// Single pass tokenizer: good enough for highlighting generated DDL, not a real SQL lexer
+const TOKEN_PATTERN =
+  /(--[^\n]*)|('(?:[^']|'')*')|("(?:[^"]|"")*"|`(?:[^`]|``)*`)|(\b\d+(?:\.\d+)?\b)|([A-Za-z_][A-Za-z0-9_]*)/g;
+
+const tokenize = (sql: string): { kind: TokenKind; text: string }[] => {
+  const tokens: { kind: TokenKind; text: string }[] = [];
+  let lastIndex = 0;
+
+  for (const match of sql.matchAll(TOKEN_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      tokens.push({ kind: 'plain', text: sql.slice(lastIndex, index) });
+    }
+
+    const [text, comment, str, quoted, num, word] = match;
+    let kind: TokenKind = 'plain';
+    if (comment) kind = 'comment';
+    else if (str) kind = 'string';
+    else if (quoted) kind = 'identifier';
+    else if (num) kind = 'number';
+    else if (word && SQL_KEYWORDS.has(word.toUpperCase())) kind = 'keyword';
+
+    tokens.push({ kind, text });
+    lastIndex = index + text.length;
+  }
+
+  if (lastIndex < sql.length) {
+    tokens.push({ kind: 'plain', text: sql.slice(lastIndex) });
+  }
+  return tokens;
+};
+
+export function SQLPreview({ sql, className = '' }: SQLPreviewProps): JSX.Element {
+  const tokens = useMemo(() => tokenize(sql), [sql]);
+
+  return (
+    <pre className={`p-4 bg-muted rounded-md text-xs overflow-auto whitespace-pre ${className}`}>
+      <code>
+        {tokens.map((token, index) =>
+          token.kind === 'plain' ? (
+            <Fragment key={index}>{token.text}</Fragment>
+          ) : (
+            <span key={index} className={TOKEN_CLASSES[token.kind]}>
+              {token.text}
+            </span>
+          )
+        )}
+      </code>
+    </pre>
+  );
+}
@@ -1,7 +1,6 @@
 import { useState, useEffect, useRef, ChangeEvent } from 'react';
 import { useProject } from '@/hooks/useProject';
-import { TableNode, Field } from '@/types/schema';
-import { Connection } from '@/types/schema';
+import { TableNode } from '@/types/schema';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -19,30 +18,39 @@ import {
   Upload,
 } from 'lucide-react';
 import { toast } from 'sonner';
-import { v4 as uuidv4 } from 'uuid';
+import { generateTableSQL } from '@/utils/sqlGenerator';
+import { importColumnDefinitions } from '@/utils/jsonImporter';
+import { applySchemaChanges, diffImportedSchema, SchemaChange } from '@/utils/schemaMerge';
+import { ImportReviewDialog } from '@/components/ImportReviewDialog';
+import { DeleteTableDialog } from '@/components/DeleteTableDialog';
+import { ConnectionInspector } from '@/components/ConnectionInspector';
+import { getIndexColumnLabel, getIndexName } from '@/utils/tableIndexes';
+import { findField } from '@/utils/relationships';
+import { getProjectDialect } from '@/utils/typeCatalog';
+import { ForeignKeyColumnMode, getTableDeletionImpact } from '@/utils/tableDeletion';
 
 interface SidebarProps {
   onEditTable?: (tableId: string) => void;
+  selectedConnectionId?: string | null; // Shows the relation inspector instead of the tabs
+  onCloseConnection?: () => void;
 }
 
-// Interface for the imported JSON column definition
-interface ImportedColumnDef {
-  table_name: string;
-  column_name: string;
-  data_type: string;
-  column_default?: string | null;
-  is_nullable?: string; // "YES" or "NO"
-  referenced_table_name?: string | null; // Added for FK
-  referenced_column_name?: string | null; // Added for FK
-}
-
-export function Sidebar({ onEditTable }: SidebarProps): JSX.Element {
+export function Sidebar({
+  onEditTable,
+  selectedConnectionId,
+  onCloseConnection,
+}: SidebarProps): JSX.Element {
   // Destructure correctly: get tablesApi and updateFullProject
   const { currentProject, tablesApi, updateFullProject } = useProject();
   const [collapsed, setCollapsed] = useState(false);
   const [selectedTable, setSelectedTable] = useState<TableNode | null>(null);
   const tablesListRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null); // Ref for file input
+  const [pendingImport, setPendingImport] = useState<{
+    changes: SchemaChange[];
+    warnings: string[];
+  } | null>(null);
+  const [tableToDelete, setTableToDelete] = useState<string | null>(null);
   const tableColors = [
     { name: 'Default', value: '' },
     { name: 'Blue', value: 'blue' },
@@ -53,6 +61,15 @@ export function Sidebar({ onEditTable }: SidebarProps): JSX.Element {
     { name: 'Pink', value: 'pink' },
   ];
 
+  const selectedConnection = selectedConnectionId
+    ? currentProject?.connections.find((c) => c.id === selectedConnectionId)
+    : undefined;
+
+  // A clicked relation should not end up hidden
+  useEffect(() => {
+    if (selectedConnectionId) setCollapsed(false);
+  }, [selectedConnectionId]);
+
   // Effect to scroll the selected table into view
   useEffect(() => {
     if (selectedTable && tablesListRef.current) {
@@ -68,33 +85,14 @@ export function Sidebar({ onEditTable }: SidebarProps): JSX.Element {
     }
   }, [selectedTable]);
 
-  // Generate SQL preview for a specific table
-  const generateTableSQL = (table: TableNode): string => {
-    let sql = `CREATE TABLE ${table.name} (\n`;
-
-    table.fields.forEach((field, index) => {
-      const comma = index < table.fields.length - 1 ? ',' : '';
-      sql += `  ${field.name} ${field.type}${field.notNull ? ' NOT NULL' : ''}${field.primary ? ' PRIMARY KEY' : ''}${field.unique && !field.primary ? ' UNIQUE' : ''}${comma}\n`;
-    });
-
-    // Add foreign key references if any fields have them
-    const foreignKeyFields = table.fields.filter((f) => f.foreignKey);
-    if (foreignKeyFields.length > 0 && currentProject) {
-      sql += ',\n';
-      foreignKeyFields.forEach((field, index) => {
-        if (field.foreignKey) {
-          const targetTable = currentProject.tables.find((t) => t.id === field.foreignKey?.tableId);
-          if (targetTable) {
-            const comma = index < foreignKeyFields.length - 1 ? ',' : '';
-            sql += `  FOREIGN KEY (${field.name}) REFERENCES ${targetTable.name}(${field.foreignKey.fieldName})${comma}\n`;
-          }
-        }
-      });
-    }
-
-    sql += ');';
-    return sql;
-  };
+  // Generate SQL preview for a specific table, in the project's dialect and export options
+  const previewTableSQL = (table: TableNode): string =>
+    currentProject
+      ? generateTableSQL(table, currentProject, {
+          ...currentProject.settings?.sqlExport,
+          dialect: getProjectDialect(currentProject),
+        })
+      : '';
 
   const handleTableClick = (table: TableNode): void => {
     setSelectedTable(table);
@@ -112,34 +110,28 @@ export function Sidebar({ onEditTable }: SidebarProps): JSX.Element {
     }
   };
 
-  const handleDeleteTable = (tableId: string, tableName: string): void => {
-    if (confirm(`Are you sure you want to delete table "${tableName}"?`)) {
-      tablesApi.deleteTable(tableId); // Use tablesApi
-      if (selectedTable?.id === tableId) {
+  const deletionImpact =
+    tableToDelete && currentProject ? getTableDeletionImpact(currentProject, tableToDelete) : null;
+
+  const handleDeleteTable = (foreignKeyColumns: ForeignKeyColumnMode): void => {
+    if (!deletionImpact) return;
+    const { table } = deletionImpact;
+    if (tablesApi.deleteTable(table.id, foreignKeyColumns)) {
+      if (selectedTable?.id === table.id) {
         setSelectedTable(null);
       }
-      toast.success(`Table "${tableName}" deleted`);
+      toast.success(`Table "${table.name}" deleted`);
     }
+    setTableToDelete(null);
   };
 
   const changeTableColor = (table: TableNode, color: string): void => {
     if (!currentProject) return;
 
-    const updatedTables = currentProject.tables.map((t) => {
-      if (t.id === table.id) {
-        return { ...t, color };
-      }
-      return t;
-    });
-
-    // Pass an updater function to updateFullProject
-    updateFullProject((prevProject) => {
-      if (!prevProject) return currentProject; // Should not happen, but safety first
-      return {
-        ...prevProject,
-        tables: updatedTables,
-        updatedAt: new Date().toISOString(), // Also update the timestamp
-      };
+    updateFullProject((draft) => {
+      const target = draft.tables.find((t) => t.id === table.id);
+      if (target) target.color = color;
+      draft.updatedAt = new Date().toISOString(); // Also update the timestamp
     });
 
     // Also update the selected table if it's the one being modified
@@ -165,17 +157,19 @@ export function Sidebar({ onEditTable }: SidebarProps): JSX.Element {
         const content = e.target?.result as string;
         const jsonData = JSON.parse(content);
 
-        // Basic validation (check if it's an array)
-        if (!Array.isArray(jsonData)) {
-          throw new Error('Invalid JSON format: Expected an array of column definitions.');
+        const { valid, errors, tables, connections, warnings } = importColumnDefinitions(jsonData);
+        if (!valid) {
+          throw new Error(errors.join('; '));
         }
 
-        // TODO: More robust validation of the JSON structure against expected schema
-
-        // Process the JSON data
-        processImportedJson(jsonData);
-
-        toast.success('Project imported successfully from JSON!');
+        if (!currentProject) return;
+        const changes = diffImportedSchema(currentProject, { tables, connections });
+        if (changes.length === 0) {
+          toast.info('The project already matches the imported schema');
+          return;
+        }
+        // Nothing is applied until the changes have been reviewed
+        setPendingImport({ changes, warnings });
       } catch (error) {
         console.error('Error importing JSON:', error);
         toast.error(
@@ -198,123 +192,15 @@ export function Sidebar({ onEditTable }: SidebarProps): JSX.Element {
     reader.readAsText(file);
   };
 
-  // Function to process the parsed JSON data and update the project state
-  const processImportedJson = (jsonData: ImportedColumnDef[]): void => {
-    if (!updateFullProject) return; // Ensure update function exists
-
-    const tablesMap = new Map<string, TableNode>();
-    // Keep track of fields created, mapping original colDef to the created Field object
-    const fieldCreationMap = new Map<ImportedColumnDef, Field>();
-
-    // --- First Pass: Create Tables and Fields ---
-    jsonData.forEach((colDef) => {
-      const tableName = colDef.table_name;
-      if (!tableName) return;
-
-      let table = tablesMap.get(tableName);
-      if (!table) {
-        table = {
-          id: uuidv4(),
-          name: tableName,
-          fields: [],
-          position: { x: Math.random() * 400, y: Math.random() * 400 },
-          color: '',
-        };
-        tablesMap.set(tableName, table);
-      }
-
-      const field: Field = {
-        id: uuidv4(),
-        name: colDef.column_name || `field_${table.fields.length + 1}`,
-        type: colDef.data_type || 'text',
-        primary: false,
-        unique: false,
-        notNull: colDef.is_nullable === 'NO',
-        defaultValue: colDef.column_default,
-        foreignKey: null, // Initialize FK as null
-      };
-
-      if (field.name.toLowerCase() === 'id') {
-        field.primary = true;
-      }
-
-      table.fields.push(field);
-      fieldCreationMap.set(colDef, field); // Map original def to created field
-    });
-
-    const newTables = Array.from(tablesMap.values());
-    const newConnections: Connection[] = []; // Array to hold connections
-
-    // --- Second Pass: Create Connections and Update FKs ---
-    jsonData.forEach((colDef) => {
-      if (colDef.referenced_table_name && colDef.referenced_column_name) {
-        const sourceTable = tablesMap.get(colDef.table_name);
-        const targetTable = tablesMap.get(colDef.referenced_table_name);
-
-        // Find the source field object using the map
-        const sourceField = fieldCreationMap.get(colDef);
-
-        if (sourceTable && targetTable && sourceField) {
-          // Find the target field object within the target table
-          const targetField = targetTable.fields.find(
-            (f) => f.name === colDef.referenced_column_name
-          );
-
-          if (targetField) {
-            // 1. Update the source field's foreignKey property
-            sourceField.foreignKey = {
-              tableId: targetTable.id,
-              fieldName: targetField.name, // Store target field name for display/info
-            };
-
-            // 2. Create the Connection object
-            const newConnection: Connection = {
-              id: uuidv4(),
-              sourceId: sourceTable.id,
-              targetId: targetTable.id,
-              sourceField: sourceField.name, // Use field NAME
-              targetField: targetField.name, // Use field NAME
-              // Defaulting to oneToMany. Determining oneToOne might require checking unique constraints on the sourceField.
-              relationshipType: 'oneToMany',
-            };
-            newConnections.push(newConnection);
-          } else {
-            console.warn(
-              `Could not find target field '${colDef.referenced_column_name}' in table '${colDef.referenced_table_name}' for FK from ${colDef.table_name}.${colDef.column_name}`
-            );
-          }
-        } else {
-          if (!sourceTable)
-            console.warn(`Could not find source table '${colDef.table_name}' for FK.`);
-          if (!targetTable)
-            console.warn(`Could not find target table '${colDef.referenced_table_name}' for FK.`);
-          if (!sourceField)
-            console.warn(
-              `Could not find source field mapping for ${colDef.table_name}.${colDef.column_name}.`
-            );
-        }
-      }
-    });
-
-    // --- Update Project State ---
-    updateFullProject((prevProject) => {
-      const baseProject = prevProject || {
-        id: uuidv4(),
-        name: 'Imported Project',
-        tables: [],
-        connections: [],
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
-
-      return {
-        ...baseProject,
-        tables: newTables,
-        connections: newConnections, // Add connections here
-        updatedAt: new Date().toISOString(),
-      };
+  const handleApplyImport = (accepted: SchemaChange[]): void => {
+    updateFullProject((draft) => {
+      applySchemaChanges(draft, accepted);
+      draft.updatedAt = new Date().toISOString();
     });
+    setPendingImport(null);
+    toast.success(`Merged ${accepted.length} ${accepted.length === 1 ? 'change' : 'changes'}`);
   };
+
   // --- End Import JSON Logic ---
 
   if (collapsed) {
@@ -338,6 +224,19 @@ export function Sidebar({ onEditTable }: SidebarProps): JSX.Element {
     );
   }
 
+  if (selectedConnection) {
+    return (
+      <div className="w-80 border-l bg-card flex flex-col h-full overflow-hidden">
+        <ScrollArea className="flex-1">
+          <ConnectionInspector
+            connection={selectedConnection}
+            onClose={() => onCloseConnection?.()}
+          />
+        </ScrollArea>
+      </div>
+    );
+  }
+
   return (
     <div className="w-80 border-l bg-card flex flex-col h-full overflow-hidden">
       <div className="flex items-center justify-between p-4 border-b">
@@ -426,7 +325,7 @@ export function Sidebar({ onEditTable }: SidebarProps): JSX.Element {
                         className="h-6 w-6"
                         onClick={(e) => {
                           e.stopPropagation();
-                          handleDeleteTable(table.id, table.name);
+                          setTableToDelete(table.id);
                         }}
                       >
                         <Trash2 className="h-3 w-3" />
@@ -519,13 +418,63 @@ export function Sidebar({ onEditTable }: SidebarProps): JSX.Element {
                                   (t) => t.id === field.foreignKey?.tableId
                                 )?.name
                               }
-                              .{field.foreignKey.fieldName}
+                              .
+                              {
+                                findField(
+                                  currentProject.tables,
+                                  field.foreignKey.tableId,
+                                  field.foreignKey.fieldId
+                                )?.name
+                              }
                             </span>
                           </div>
                         )}
                       </div>
                     ))}
                   </div>
+
+                  {selectedTable.indexes?.length > 0 && (
+                    <div className="space-y-2">
+                      <h4 className="text-sm font-medium">Indexes</h4>
+                      {selectedTable.indexes.map((index) => (
+                        <div key={index.id} className="p-3 text-sm border rounded-md bg-background">
+                          <div className="flex justify-between items-center gap-2">
+                            <span className="font-medium truncate">
+                              {getIndexName(selectedTable, index)}
+                            </span>
+                            <div className="flex gap-1 shrink-0">
+                              {index.unique && (
+                                <span className="text-xs bg-secondary px-1.5 py-0.5 rounded">
+                                  UNIQUE
+                                </span>
+                              )}
+                              {index.method && index.method !== 'btree' && (
+                                <span className="text-xs bg-muted px-2 py-0.5 rounded uppercase">
+                                  {index.method}
+                                </span>
+                              )}
+                            </div>
+                          </div>
+                          <div className="mt-1 text-xs font-mono text-muted-foreground">
+                            (
+                            {index.columns
+                              .map(
+                                (column) =>
+                                  `${getIndexColumnLabel(selectedTable, column) ?? '?'}${column.order === 'desc' ? ' DESC' : ''}`
+                              )
+                              .join(', ')}
+                            )
+                          </div>
+                          {index.where?.trim() && (
+                            <div className="mt-2 text-xs p-2 bg-muted/50 rounded font-mono">
+                              WHERE {index.where}
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
                   <div className="pt-2">
                     <Button
                       variant="outline"
@@ -555,7 +504,7 @@ export function Sidebar({ onEditTable }: SidebarProps): JSX.Element {
                 <div className="space-y-4">
                   <h3 className="font-medium">SQL for {selectedTable.name}</h3>
                   <pre className="p-4 bg-muted rounded-md text-xs overflow-x-auto whitespace-pre">
-                    {generateTableSQL(selectedTable)}
+                    {previewTableSQL(selectedTable)}
                   </pre>
                 </div>
               ) : currentProject?.tables.length ? (
@@ -569,7 +518,7 @@ export function Sidebar({ onEditTable }: SidebarProps): JSX.Element {
                     <h3 className="font-medium">Full Database SQL</h3>
                     <div className="p-4 bg-muted rounded-md text-xs overflow-x-auto">
                       <pre className="whitespace-pre">
-                        {currentProject.tables.map(generateTableSQL).join('\n\n')}
+                        {currentProject.tables.map(previewTableSQL).join('\n\n')}
                       </pre>
                     </div>
                   </div>
@@ -585,6 +534,19 @@ export function Sidebar({ onEditTable }: SidebarProps): JSX.Element {
           </ScrollArea>
         </TabsContent>
       </Tabs>
+
+      <ImportReviewDialog
+        open={pendingImport !== null}
+        onOpenChange={(open) => !open && setPendingImport(null)}
+        changes={pendingImport?.changes ?? []}
+        warnings={pendingImport?.warnings}
+        onApply={handleApplyImport}
+      />
+      <DeleteTableDialog
+        impact={deletionImpact}
+        onOpenChange={(open) => !open && setTableToDelete(null)}
+        onConfirm={handleDeleteTable}
+      />
     </div>
   );
 }
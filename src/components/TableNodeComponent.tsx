@@ -1,10 +1,16 @@
 import { memo } from 'react';
 import { Handle, Position } from 'reactflow';
-import { TableNode, Field } from '@/types/schema';
-import { KeyRound, Link, Edit } from 'lucide-react';
+import { TableNode, Field, UserType } from '@/types/schema';
+import { KeyRound, Link, Edit, MessageSquareText, Minimize2 } from 'lucide-react';
+import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/hover-card';
+import { getConstraintFields } from '@/utils/tableConstraints';
+import { describeUserType, findUserType } from '@/utils/userTypes';
 
 interface TableNodeProps {
-  data: TableNode;
+  data: TableNode & {
+    userTypes?: UserType[]; // Project enums and domains used by the fields
+    onToggleJunction?: (tableId: string) => void;
+  };
   selected: boolean;
   onEdit?: (tableId: string) => void;
 }
@@ -13,13 +19,69 @@ interface ExtendedTableNodeProps extends TableNodeProps {
   onEdit?: (tableId: string) => void;
 }
 
+// Project types are told apart from built-in ones and show their definition on hover
+function FieldTypeBadge({
+  type,
+  userTypes,
+}: {
+  type: string;
+  userTypes?: UserType[];
+}): JSX.Element {
+  const userType = findUserType(userTypes, type);
+  return (
+    <div
+      className={`field-type text-xs px-2 py-0.5 rounded ${
+        userType ? 'bg-violet-900/60 text-violet-200' : 'bg-slate-800 text-slate-300 uppercase'
+      }`}
+      title={userType ? `${userType.name}: ${describeUserType(userType)}` : type}
+    >
+      {type.length > 8 ? `${type.substring(0, 8)}...` : type}
+    </div>
+  );
+}
+
+// Table and column comments and checks, shown when hovering the table name
+function TableNotesCard({ table }: { table: TableNode }): JSX.Element {
+  const notedFields = table.fields.filter((field) => field.comment?.trim() || field.check?.trim());
+  if (!table.comment?.trim() && notedFields.length === 0) {
+    return <span className="truncate text-base">{table.name}</span>;
+  }
+
+  return (
+    <HoverCard openDelay={300}>
+      <HoverCardTrigger asChild>
+        <span className="truncate text-base flex items-center gap-1.5 cursor-help">
+          {table.name}
+          <MessageSquareText className="h-3.5 w-3.5 shrink-0 text-slate-400" />
+        </span>
+      </HoverCardTrigger>
+      <HoverCardContent className="w-80 space-y-2 text-xs" align="start">
+        {table.comment?.trim() && <p className="whitespace-pre-wrap">{table.comment}</p>}
+        {notedFields.map((field) => (
+          <div key={field.id}>
+            <span className="font-mono font-medium">{field.name}</span>
+            {field.comment?.trim() && (
+              <p className="text-muted-foreground whitespace-pre-wrap">{field.comment}</p>
+            )}
+            {field.check?.trim() && (
+              <p className="font-mono text-muted-foreground">CHECK ({field.check})</p>
+            )}
+          </div>
+        ))}
+      </HoverCardContent>
+    </HoverCard>
+  );
+}
+
 export const TableNodeComponent = memo(
   (props: ExtendedTableNodeProps) => {
     // Extract props - could come from direct props or from data object
     const { data, selected, onEdit: propOnEdit } = props;
     const onEdit =
       propOnEdit || (props.data as TableNode & { onEdit?: (tableId: string) => void })?.onEdit;
-    const { name, fields, color } = data;
+    const { fields, color } = data;
+    const primaryFields = fields.filter((field) => field.primary);
+    const constraints = data.constraints ?? [];
 
     // Define custom styling based on the table color
     const headerBgColor = color || 'bg-slate-800 dark:bg-slate-800';
@@ -48,7 +110,20 @@ export const TableNodeComponent = memo(
           className={`${headerBgColor} p-3 font-medium text-white flex justify-between items-center`}
           style={{ backgroundColor: color ? undefined : '#1e293b' }}
         >
-          <span className="truncate text-base">{name}</span>
+          <TableNotesCard table={data} />
+          {data.junction && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                data.onToggleJunction?.(data.id);
+              }}
+              className="ml-auto p-1 rounded-full hover:bg-slate-700/50 transition-colors"
+              aria-label="Collapse link table"
+              title="Many-to-many link table: collapse into a single edge"
+            >
+              <Minimize2 className="h-4 w-4 text-white" />
+            </button>
+          )}
           <button
             onClick={handleEditClick}
             className="p-1 rounded-full hover:bg-slate-700/50 transition-colors"
@@ -70,7 +145,7 @@ export const TableNodeComponent = memo(
             >
               {/* Left handle for the field */}
               <Handle
-                id={`${field.name}-left`}
+                id={`${field.id}-left`}
                 type="target"
                 position={Position.Left}
                 className="connection-handle !left-0 bg-blue-500 w-2.5 h-2.5 min-w-2.5 min-h-2.5"
@@ -88,7 +163,7 @@ export const TableNodeComponent = memo(
                       {field.foreignKey.tableId.substring(0, 8)}...
                     </span>
                     <div className="absolute left-full ml-2 px-2 py-1 text-xs bg-slate-800 text-white rounded opacity-0 group-hover:opacity-100 transition-opacity z-10 whitespace-nowrap">
-                      References: {field.foreignKey.tableId}.{field.foreignKey.fieldName}
+                      References: {field.foreignKey.tableId}.{field.foreignKey.fieldId}
                     </div>
                   </div>
                 ) : null}
@@ -99,9 +174,7 @@ export const TableNodeComponent = memo(
                 {field.name}
               </div>
               {/* Field type badge */}
-              <div className="field-type text-xs bg-slate-800 px-2 py-0.5 rounded text-slate-300 uppercase">
-                {field.type.length > 8 ? `${field.type.substring(0, 8)}...` : field.type}
-              </div>
+              <FieldTypeBadge type={field.type} userTypes={data.userTypes} />
 
               {/* Field constraints - only show if not primary/FK */}
               {field.notNull && !field.primary && !field.foreignKey && (
@@ -112,7 +185,7 @@ export const TableNodeComponent = memo(
 
               {/* Right handle for the field */}
               <Handle
-                id={field.name}
+                id={field.id}
                 type="source"
                 position={Position.Right}
                 className="connection-handle !right-0 bg-blue-500 w-2.5 h-2.5 min-w-2.5 min-h-2.5"
@@ -121,6 +194,24 @@ export const TableNodeComponent = memo(
             </div>
           ))}
         </div>
+
+        {/* Keys spanning several columns */}
+        {(primaryFields.length > 1 || constraints.length > 0) && (
+          <div className="px-3 py-1.5 space-y-0.5 text-[10px] font-mono text-slate-400 bg-slate-900 border-t border-slate-700/30">
+            {primaryFields.length > 1 && (
+              <div className="truncate">PK ({primaryFields.map((f) => f.name).join(', ')})</div>
+            )}
+            {constraints.map((constraint) => (
+              <div key={constraint.id} className="truncate">
+                {constraint.type === 'check'
+                  ? `CHECK (${constraint.expression})`
+                  : `UQ (${getConstraintFields(data, constraint)
+                      .map((f) => f.name)
+                      .join(', ')})`}
+              </div>
+            ))}
+          </div>
+        )}
       </div>
     );
   },
@@ -129,7 +220,10 @@ export const TableNodeComponent = memo(
     return (
       prevProps.data.name === nextProps.data.name &&
       prevProps.data.color === nextProps.data.color &&
+      prevProps.data.comment === nextProps.data.comment &&
       prevProps.selected === nextProps.selected &&
+      prevProps.data.constraints === nextProps.data.constraints &&
+      prevProps.data.userTypes === nextProps.data.userTypes &&
       areFieldsEqual(prevProps.data.fields, nextProps.data.fields)
     );
   }
@@ -145,8 +239,10 @@ const areFieldsEqual = (prev: Field[], next: Field[]): boolean => {
       field.type === next[index].type &&
       field.primary === next[index].primary &&
       field.notNull === next[index].notNull &&
+      field.comment === next[index].comment &&
+      field.check === next[index].check &&
       field.foreignKey?.tableId === next[index].foreignKey?.tableId &&
-      field.foreignKey?.fieldName === next[index].foreignKey?.fieldName
+      field.foreignKey?.fieldId === next[index].foreignKey?.fieldId
   );
 };
 
@@ -0,0 +1,228 @@
+import { useEffect, useMemo, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { toast } from 'sonner';
+import { Plus, Trash2 } from 'lucide-react';
+import { DomainType, EnumType, Project, UserType } from '@/types/schema';
+import { useProject } from '@/hooks/useProject';
+import { FieldTypeEditor } from '@/components/FieldTypeEditor';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { getProjectDialect } from '@/utils/typeCatalog';
+import {
+  applyUserTypes,
+  countUserTypeUsage,
+  getUserTypeFallback,
+  validateUserTypes,
+} from '@/utils/userTypes';
+
+interface UserTypesDialogProps {
+  project: Project;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Drops the blank lines and whitespace left over from editing
+const normalizeUserType = (userType: UserType): UserType =>
+  userType.kind === 'enum'
+    ? {
+        ...userType,
+        name: userType.name.trim(),
+        values: userType.values.map((v) => v.trim()).filter(Boolean),
+      }
+    : { ...userType, name: userType.name.trim(), baseType: userType.baseType.trim() };
+
+export function UserTypesDialog({
+  project,
+  open,
+  onOpenChange,
+}: UserTypesDialogProps): JSX.Element {
+  const { updateFullProject } = useProject();
+  const [userTypes, setUserTypes] = useState<UserType[]>([]);
+  const usage = useMemo(() => countUserTypeUsage(project), [project]);
+  const dialect = getProjectDialect(project);
+
+  // Edit a copy, so Cancel leaves the project untouched
+  const savedTypes = project.userTypes;
+  useEffect(() => {
+    if (open) {
+      setUserTypes(savedTypes ?? []);
+    }
+  }, [open, savedTypes]);
+
+  const updateType = (id: string, update: Partial<EnumType> | Partial<DomainType>): void => {
+    setUserTypes((prev) => prev.map((t) => (t.id === id ? ({ ...t, ...update } as UserType) : t)));
+  };
+
+  const handleAddEnum = (): void => {
+    setUserTypes((prev) => [...prev, { id: uuidv4(), kind: 'enum', name: '', values: [] }]);
+  };
+
+  const handleAddDomain = (): void => {
+    setUserTypes((prev) => [
+      ...prev,
+      { id: uuidv4(), kind: 'domain', name: '', baseType: 'TEXT', notNull: false },
+    ]);
+  };
+
+  const handleSave = (): void => {
+    const normalized = userTypes.map(normalizeUserType);
+    const validation = validateUserTypes(normalized);
+    if (!validation.valid) {
+      validation.errors.forEach((error) => toast.error(error));
+      return;
+    }
+
+    updateFullProject((draft) => applyUserTypes(draft, normalized));
+    toast.success('Types saved');
+    onOpenChange(false);
+  };
+
+  const removedInUse = (savedTypes ?? []).filter(
+    (t) => usage.get(t.id) && !userTypes.some((u) => u.id === t.id)
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Types</DialogTitle>
+          <DialogDescription>
+            Enums and domains shared by the project. Pick them as a field type in the table editor;
+            they are exported as native types on PostgreSQL and inlined elsewhere.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[55vh] pr-3">
+          <div className="space-y-3">
+            {userTypes.length === 0 && (
+              <p className="text-sm text-muted-foreground py-4 text-center">
+                No types defined yet.
+              </p>
+            )}
+
+            {userTypes.map((userType) => (
+              <div key={userType.id} className="p-3 border rounded-md space-y-3">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs font-medium uppercase text-muted-foreground w-14">
+                    {userType.kind}
+                  </span>
+                  <Input
+                    value={userType.name}
+                    onChange={(e) => updateType(userType.id, { name: e.target.value })}
+                    placeholder="Type name"
+                    className="h-8"
+                  />
+                  {usage.get(userType.id) > 0 && (
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">
+                      {usage.get(userType.id)} field{usage.get(userType.id) > 1 ? 's' : ''}
+                    </span>
+                  )}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    onClick={() => setUserTypes((prev) => prev.filter((t) => t.id !== userType.id))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                {userType.kind === 'enum' ? (
+                  <div className="space-y-1">
+                    <Label className="text-xs">Values, one per line</Label>
+                    <Textarea
+                      value={userType.values.join('\n')}
+                      onChange={(e) =>
+                        updateType(userType.id, { values: e.target.value.split('\n') })
+                      }
+                      rows={3}
+                      className="font-mono text-sm"
+                    />
+                  </div>
+                ) : (
+                  <div className="grid gap-3 sm:grid-cols-2">
+                    <div className="space-y-1">
+                      <Label className="text-xs">Base type</Label>
+                      <FieldTypeEditor
+                        value={userType.baseType}
+                        dialect={dialect}
+                        onChange={(baseType) => updateType(userType.id, { baseType })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Default</Label>
+                      <Input
+                        value={userType.defaultValue ?? ''}
+                        onChange={(e) => updateType(userType.id, { defaultValue: e.target.value })}
+                        placeholder="Optional"
+                        className="h-8 font-mono"
+                      />
+                    </div>
+                    <div className="space-y-1 sm:col-span-2">
+                      <Label className="text-xs">Check</Label>
+                      <Input
+                        value={userType.check ?? ''}
+                        onChange={(e) => updateType(userType.id, { check: e.target.value })}
+                        placeholder="VALUE > 0"
+                        className="h-8 font-mono"
+                      />
+                    </div>
+                    <label className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={userType.notNull}
+                        onCheckedChange={(checked) =>
+                          updateType(userType.id, { notNull: checked === true })
+                        }
+                      />
+                      Not null
+                    </label>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        {removedInUse.length > 0 && (
+          <p className="text-sm text-amber-600 dark:text-amber-400">
+            {removedInUse
+              .map((t) => `Fields using ${t.name} will become ${getUserTypeFallback(t)}.`)
+              .join(' ')}
+          </p>
+        )}
+
+        <DialogFooter className="sm:justify-between">
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handleAddEnum}>
+              <Plus className="h-4 w-4 mr-1" />
+              Enum
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleAddDomain}>
+              <Plus className="h-4 w-4 mr-1" />
+              Domain
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave}>Save Types</Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
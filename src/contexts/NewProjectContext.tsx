@@ -1,73 +1,227 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { toast } from 'sonner';
 import { v4 as uuidv4 } from 'uuid';
-import { produce } from 'immer';
-import { Project } from '@/types/schema'; // Import type from schema
+import { applyPatches, enablePatches, produceWithPatches } from 'immer';
+import { Project, ProjectRecipe, ProjectSettings, SQLExportOptions } from '@/types/schema'; // Import type from schema
 import { useTables } from '@/hooks/useTables';
 import { useConnections } from '@/hooks/useConnections';
+import { useUndoHistory } from '@/hooks/useUndoHistory';
+import { generateSQL } from '@/utils/sqlGenerator';
+import { handleError } from '@/utils/errorHandling';
+import { CURRENT_FORMAT_VERSION, loadProject, QuarantinedProject } from '@/utils/projectFormat';
+import { cloneProject } from '@/utils/projectFile';
+import { syncRelationships } from '@/utils/relationships';
+import {
+  createProjectStorage,
+  migrateFromLocalStorage,
+  ProjectStorage,
+} from '@/utils/projectStorage';
 import { ProjectContext } from './ProjectContextObject'; // Import context object
 
+enablePatches();
+
 // Type definition removed (now in src/types/schema.ts)
 
 // Context creation removed (now in src/contexts/ProjectContextObject.ts)
 
-export const ProjectProvider = ({ children }: { children: React.ReactNode }): React.ReactElement => {
+interface ProjectProviderProps {
+  children: React.ReactNode;
+  storage?: ProjectStorage; // Defaults to IndexedDB
+}
+
+export const ProjectProvider = ({
+  children,
+  storage,
+}: ProjectProviderProps): React.ReactElement => {
+  const [projectStorage] = useState<ProjectStorage>(() => storage ?? createProjectStorage());
   const [projects, setProjects] = useState<Project[]>([]);
+  const [quarantinedProjects, setQuarantinedProjects] = useState<QuarantinedProject[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  // Projects as last written to storage, to only write the ones that changed
+  const persistedProjectsRef = useRef<Project[]>([]);
   const [currentProject, setCurrentProject] = useState<Project | null>(null);
+  // Latest project, so consecutive updates in the same tick build on each other
+  const currentProjectRef = useRef<Project | null>(null);
+  const history = useUndoHistory();
 
-  // Initialize from localStorage
+  // Initialize from storage, moving projects over from localStorage on first run
   useEffect(() => {
-    const storedProjects = localStorage.getItem('db-canvas-projects');
-    if (storedProjects) {
+    let cancelled = false;
+
+    const load = async (): Promise<void> => {
       try {
-        setProjects(JSON.parse(storedProjects));
+        await migrateFromLocalStorage(projectStorage);
       } catch (error) {
-        console.error('Failed to parse stored projects', error);
-        toast.error('Failed to load stored projects');
+        handleError(error, 'Failed to migrate projects from local storage', {
+          context: 'ProjectProvider.migrateFromLocalStorage',
+        });
       }
-    }
-  }, []);
 
-  // Persist to localStorage
-  useEffect(() => {
-    if (projects.length > 0) {
-      localStorage.setItem('db-canvas-projects', JSON.stringify(projects));
-    }
-  }, [projects]);
+      try {
+        const results = (await projectStorage.loadAll()).map(loadProject);
+        if (cancelled) return;
+
+        const storedProjects: Project[] = [];
+        const quarantined: QuarantinedProject[] = [];
+        results.forEach((result) => {
+          if (result.status === 'loaded') {
+            storedProjects.push(result.project);
+            if (result.repairs.length) {
+              toast.warning(`Repaired the relations of "${result.project.name}"`, {
+                description: result.repairs.join('\n'),
+              });
+            }
+          } else {
+            quarantined.push(result.quarantined);
+          }
+        });
+        quarantined.forEach((project) =>
+          console.error(`Quarantined project "${project.name}" (${project.id}):`, project.error)
+        );
+        if (quarantined.length) {
+          toast.error(`${quarantined.length} saved project(s) could not be loaded`);
+        }
+
+        // Migrated or repaired projects are left out so the persist effect writes them back
+        persistedProjectsRef.current = results.flatMap((result) =>
+          result.status === 'loaded' && !result.migrated ? [result.project] : []
+        );
+        setQuarantinedProjects(quarantined);
+        // Keep anything created while loading
+        setProjects((prev) => [
+          ...storedProjects,
+          ...prev.filter((p) => !storedProjects.some((stored) => stored.id === p.id)),
+        ]);
+      } catch (error) {
+        handleError(error, 'Failed to load stored projects', {
+          context: 'ProjectProvider.loadAll',
+        });
+      } finally {
+        if (!cancelled) setIsLoaded(true);
+      }
+    };
+
+    load();
+    return (): void => {
+      cancelled = true;
+    };
+  }, [projectStorage]);
 
-  // Updated updateProject to accept an updater function
-  const updateProject = (updater: (prevProject: Project | null) => Project): void => {
-    setCurrentProject((prevCurrent) => {
-      if (!prevCurrent) return null; // Should not happen if updating, but safety check
+  // Persist incrementally: only projects that changed (by reference) or were removed are written
+  useEffect(() => {
+    if (!isLoaded) return;
 
-      return produce(prevCurrent, (draftProject) => {
-        const updatedProject = updater(draftProject);
+    const previous = persistedProjectsRef.current;
+    persistedProjectsRef.current = projects;
 
-        // Update the list of all projects as well
-        setProjects((prevProjects) =>
-          prevProjects.map((p) => (p.id === updatedProject.id ? updatedProject : p))
+    projects
+      .filter((project) => !previous.includes(project))
+      .forEach((project) => {
+        projectStorage.save(project).catch((error) =>
+          handleError(error, `Failed to save project "${project.name}"`, {
+            context: 'ProjectProvider.save',
+          })
         );
+      });
 
-        return updatedProject;
+    previous
+      .filter((project) => !projects.some((p) => p.id === project.id))
+      .forEach((project) => {
+        projectStorage.remove(project.id).catch((error) =>
+          handleError(error, `Failed to delete project "${project.name}"`, {
+            context: 'ProjectProvider.remove',
+          })
+        );
       });
-    });
+  }, [projects, isLoaded, projectStorage]);
+
+  const selectProject = (project: Project | null): void => {
+    if (project?.id !== currentProjectRef.current?.id) {
+      history.clear(); // History is per project
+    }
+    currentProjectRef.current = project;
+    setCurrentProject(project);
+  };
+
+  const commitProject = (updatedProject: Project): void => {
+    currentProjectRef.current = updatedProject;
+    setCurrentProject(updatedProject);
+    // Update the list of all projects as well
+    setProjects((prevProjects) =>
+      prevProjects.map((p) => (p.id === updatedProject.id ? updatedProject : p))
+    );
+  };
+
+  // Every change is recorded as Immer patches so it can be undone. Recipes mutate the draft
+  // rather than return a new project, which would be recorded as one patch replacing it all.
+  const updateProject = (recipe: ProjectRecipe): void => {
+    const prevCurrent = currentProjectRef.current;
+    if (!prevCurrent) return; // Should not happen if updating, but safety check
+
+    const [updatedProject, patches, inversePatches] = produceWithPatches(
+      prevCurrent,
+      (draftProject) => {
+        recipe(draftProject);
+      }
+    );
+    if (patches.length === 0) return;
+
+    // Whatever changed, foreign keys and connections must still agree. The fix-up is part of
+    // the same undo step.
+    const [syncedProject, syncPatches, syncInversePatches] = produceWithPatches(
+      updatedProject,
+      (draftProject) => {
+        syncRelationships(draftProject, prevCurrent);
+      }
+    );
+
+    history.record([...patches, ...syncPatches], [...syncInversePatches, ...inversePatches]);
+    commitProject(syncedProject);
+  };
+
+  // Preferences such as the last export options are no schema change: no undo step, and
+  // updatedAt stays. Recipes change settings key by key, so undoing them leaves these alone.
+  const saveProjectSettings = (changes: Partial<ProjectSettings>): void => {
+    const project = currentProjectRef.current;
+    if (!project) return;
+    commitProject({ ...project, settings: { ...project.settings, ...changes } });
+  };
+
+  const undo = (): void => {
+    const project = currentProjectRef.current;
+    const entry = project && history.takeUndo();
+    if (project && entry) {
+      commitProject(applyPatches(project, entry.inversePatches));
+    }
+  };
+
+  const redo = (): void => {
+    const project = currentProjectRef.current;
+    const entry = project && history.takeRedo();
+    if (project && entry) {
+      commitProject(applyPatches(project, entry.patches));
+    }
   };
 
   // Initialize hooks
   // Pass the new updateProject function to the hooks
   const tablesApi = useTables(currentProject, updateProject);
   const connectionsApi = useConnections(currentProject, updateProject);
-  const createProject = (name: string): Project => {
+  const createProject = (
+    name: string,
+    content: Pick<Project, 'tables' | 'connections'> = { tables: [], connections: [] }
+  ): Project => {
     const newProject: Project = {
+      formatVersion: CURRENT_FORMAT_VERSION,
       id: uuidv4(),
       name,
-      tables: [],
-      connections: [],
+      tables: content.tables,
+      connections: content.connections,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     };
     setProjects((prev) => [...prev, newProject]);
-    setCurrentProject(newProject);
+    selectProject(newProject);
     toast.success(`Project "${name}" created`);
     return newProject; // Return the newly created project
   };
@@ -75,8 +229,8 @@ export const ProjectProvider = ({ children }: { children: React.ReactNode }): Re
   const openProject = (id: string): void => {
     const project = projects.find((p) => p.id === id);
     if (project) {
-      setCurrentProject(project);
-    } else {
+      selectProject(project);
+    } else if (isLoaded) {
       toast.error('Project not found');
     }
   };
@@ -84,71 +238,54 @@ export const ProjectProvider = ({ children }: { children: React.ReactNode }): Re
   const deleteProject = (id: string): void => {
     setProjects((prev) => prev.filter((p) => p.id !== id));
     if (currentProject?.id === id) {
-      setCurrentProject(null);
+      selectProject(null);
     }
   };
 
   const duplicateProject = (id: string): void => {
     const project = projects.find((p) => p.id === id);
     if (project) {
-      const newProject = {
-        ...project,
-        id: crypto.randomUUID(),
-        name: `${project.name} (Copy)`,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
+      const newProject = cloneProject(project, { name: `${project.name} (Copy)` });
       setProjects((prev) => [...prev, newProject]);
     }
   };
 
-  const exportProjectSQL = (id: string): string => {
+  // Adds a project read from a .dbcanvas file. It keeps its IDs unless one is already taken,
+  // also by a quarantined project whose stored data must not be overwritten.
+  const importProject = (project: Project): Project => {
+    const taken = [...projects, ...quarantinedProjects].some((p) => p.id === project.id);
+    const newProject = taken ? cloneProject(project) : project;
+    setProjects((prev) => [...prev, newProject]);
+    toast.success(`Project "${newProject.name}" imported`);
+    return newProject;
+  };
+
+  // Removes a project that could not be loaded from storage for good
+  const discardQuarantinedProject = (id: string): void => {
+    projectStorage.remove(id).catch((error) =>
+      handleError(error, 'Failed to delete project', {
+        context: 'ProjectProvider.discardQuarantinedProject',
+      })
+    );
+    setQuarantinedProjects((prev) => prev.filter((p) => p.id !== id));
+  };
+
+  const exportProjectSQL = (id: string, options: Partial<SQLExportOptions> = {}): string => {
     const project = projects.find((p) => p.id === id);
     if (!project) {
       toast.error('Project not found');
       return '';
     }
 
-    let sql = `-- ${project.name} SQL Schema\n-- Generated by DB Canvas\n-- ${new Date().toISOString()}\n\n`;
-
-    project.tables.forEach((table) => {
-      sql += `CREATE TABLE ${table.name} (\n`;
-
-      table.fields.forEach((field, index) => {
-        const comma = index < table.fields.length - 1 ? ',' : '';
-        sql += `  ${field.name} ${field.type}${field.notNull ? ' NOT NULL' : ''}${field.defaultValue ? ` DEFAULT ${field.defaultValue}` : ''}${field.primary ? ' PRIMARY KEY' : ''}${field.unique && !field.primary ? ' UNIQUE' : ''}${comma}\n`;
-      });
-
-      sql += `);\n\n`;
-    });
-
-    project.connections.forEach((connection) => {
-      const sourceTable = project.tables.find((t) => t.id === connection.sourceId);
-      const targetTable = project.tables.find((t) => t.id === connection.targetId);
-
-      if (sourceTable && targetTable) {
-        sql += `ALTER TABLE ${sourceTable.name} ADD CONSTRAINT fk_${sourceTable.name}_${connection.sourceField}_${targetTable.name} `;
-        sql += `FOREIGN KEY (${connection.sourceField}) REFERENCES ${targetTable.name}(${connection.targetField})`;
-
-        // Basic ON DELETE behavior - adjust as needed for specific dialects/requirements
-        if (connection.relationshipType === 'oneToMany') {
-          sql += ` ON DELETE CASCADE`; // Common default for one-to-many
-        } else {
-          // oneToOne
-          sql += ` ON DELETE RESTRICT`; // Common default for one-to-one
-        }
-
-        sql += `;\n`;
-      }
-    });
-
-    return sql;
+    return generateSQL(project, options);
   };
 
   return (
     <ProjectContext.Provider
       value={{
         projects,
+        quarantinedProjects,
+        discardQuarantinedProject,
         currentProject,
         tablesApi,
         connectionsApi,
@@ -156,8 +293,16 @@ export const ProjectProvider = ({ children }: { children: React.ReactNode }): Re
         openProject,
         deleteProject,
         duplicateProject,
+        importProject,
         updateFullProject: updateProject, // Assign the internal update function
+        saveProjectSettings,
         exportProjectSQL, // Add the export function to the context value
+        undo,
+        redo,
+        canUndo: history.canUndo,
+        canRedo: history.canRedo,
+        beginHistoryGroup: history.beginGroup,
+        endHistoryGroup: history.endGroup,
       }}
     >
       {children}
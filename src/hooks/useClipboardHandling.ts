@@ -1,7 +1,10 @@
 import { useState, useEffect } from 'react';
 import { toast } from 'sonner';
 import { Node } from 'reactflow';
+import { v4 as uuidv4 } from 'uuid';
 import { TableNode } from '@/types/schema';
+import { remapConstraintFields } from '@/utils/tableConstraints';
+import { remapIndexFields } from '@/utils/tableIndexes';
 import { useProject } from './useProject'; // Assuming tablesApi comes from useProject
 
 // Define the arguments the hook will need
@@ -59,10 +62,17 @@ export const useClipboardHandling = ({
           pastePosition.y = selectedNode.position.y + 50;
         }
 
+        // Fields are referenced by id, so the copy needs its own
+        const fieldIds = new Map(copiedTableData.fields.map((field) => [field.id, uuidv4()]));
         const newTableData: Omit<TableNode, 'id' | 'position'> = {
           ...copiedTableData,
           name: `${copiedTableData.name} (Copy)`,
-          fields: copiedTableData.fields.map((field) => ({ ...field })), // Shallow copy fields
+          fields: copiedTableData.fields.map((field) => ({ ...field, id: fieldIds.get(field.id) })),
+          constraints:
+            copiedTableData.constraints &&
+            remapConstraintFields(copiedTableData.constraints, fieldIds),
+          indexes: copiedTableData.indexes && remapIndexFields(copiedTableData.indexes, fieldIds),
+          junction: undefined,
         };
 
         // Call the API to add the new table
@@ -1,20 +1,22 @@
 import { useState, useEffect } from 'react';
 import { toast } from 'sonner';
 import { v4 as uuidv4 } from 'uuid';
-import { produce } from 'immer';
 import { validateConnection } from '@/utils/validation';
 import { handleError } from '@/utils/errorHandling';
-import { Connection as DBConnection, Project } from '@/types/schema';
+import { addJunctionTable, validateManyToMany } from '@/utils/junctionTables';
+import { getProjectDialect } from '@/utils/typeCatalog';
+import { Connection as DBConnection, Project, ProjectRecipe } from '@/types/schema';
 
-// Update the type of updateProject to accept the updater function
 export const useConnections = (
   project: Project | null,
-  updateProject: (updater: (prevProject: Project | null) => Project) => void
+  updateProject: (recipe: ProjectRecipe) => void
 ): {
   connections: DBConnection[];
   addConnection: (connection: Omit<DBConnection, 'id'>) => DBConnection | null;
   updateConnection: (connection: DBConnection) => boolean;
   deleteConnection: (id: string) => boolean;
+  addManyToMany: (sourceId: string, targetId: string) => boolean;
+  deleteManyToMany: (junctionId: string) => boolean;
   validateConnection: typeof validateConnection;
 } => {
   const [connections, setConnections] = useState<DBConnection[]>(project?.connections || []);
@@ -36,7 +38,11 @@ export const useConnections = (
       return null;
     }
 
-    const validation = validateConnection({ ...connection, id: '' }, project.tables);
+    const validation = validateConnection(
+      { ...connection, id: '' },
+      project.tables,
+      getProjectDialect(project)
+    );
     if (!validation.valid) {
       validation.errors.forEach((error) => toast.error(error));
       return null;
@@ -47,14 +53,11 @@ export const useConnections = (
       ...connection,
     };
 
-    // Update project state using Immer
-    updateProject(
-      produce((draft) => {
-        draft.connections.push(newConnection);
-        draft.updatedAt = new Date().toISOString();
-        setConnections(draft.connections); // Keep local state sync
-      })
-    );
+    // Local state follows through the effect above
+    updateProject((draft) => {
+      draft.connections.push(newConnection);
+      draft.updatedAt = new Date().toISOString();
+    });
 
     return newConnection;
   };
@@ -65,22 +68,18 @@ export const useConnections = (
       return false;
     }
 
-    const validation = validateConnection(connection, project.tables);
+    const validation = validateConnection(connection, project.tables, getProjectDialect(project));
     if (!validation.valid) {
       validation.errors.forEach((error) => toast.error(error));
       return false;
     }
 
-    const updatedConnections = connections.map((c) => (c.id === connection.id ? connection : c));
-
-    // Update project state using Immer
-    updateProject(
-      produce((draft) => {
-        draft.connections = updatedConnections;
-        draft.updatedAt = new Date().toISOString();
-        setConnections(draft.connections); // Keep local state sync
-      })
-    );
+    updateProject((draft) => {
+      const index = draft.connections.findIndex((c) => c.id === connection.id);
+      if (index !== -1) draft.connections[index] = connection;
+      // The column's foreignKey follows, see syncRelationships
+      draft.updatedAt = new Date().toISOString();
+    });
 
     return true;
   };
@@ -93,63 +92,59 @@ export const useConnections = (
       return false;
     }
 
-    // Find the connection being deleted to get source info
-    const connectionToDelete = project.connections.find((c) => c.id === id);
-
-    if (!connectionToDelete) {
+    if (!project.connections.some((c) => c.id === id)) {
       toast.error('Connection not found for deletion');
       return false;
     }
 
-    // Update project state using the updater function
-    updateProject((prevProject) => {
-      if (!prevProject) {
-        // Fallback to current project if prevProject is null (shouldn't happen)
-        return project ?? {
-          id: '',
-          name: '',
-          tables: [],
-          connections: [],
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        };
-      }
-
-      // 1. Filter out the deleted connection
-      const updatedConnections = prevProject.connections.filter((c) => c.id !== id);
-
-      // 2. Remove the foreign key from the source table's field
-      const updatedTables = prevProject.tables.map((table) => {
-        if (table.id === connectionToDelete.sourceId) {
-          return {
-            ...table,
-            fields: table.fields.map((field) => {
-              if (field.name === connectionToDelete.sourceField && field.foreignKey) {
-                // Return a new field object without the foreignKey property
-                return {
-                  ...field,
-                  foreignKey: undefined
-                };
-              }
-              return field;
-            }),
-          };
-        }
-        return table;
-      });
+    updateProject((draft) => {
+      // The source field's foreignKey is cleared by syncRelationships
+      const index = draft.connections.findIndex((c) => c.id === id);
+      if (index !== -1) draft.connections.splice(index, 1);
+      draft.updatedAt = new Date().toISOString();
+    });
+
+    toast.success('Connection deleted');
+    return true;
+  };
+
+  // The link table carries the relation, see utils/junctionTables.ts
+  const addManyToMany = (sourceId: string, targetId: string): boolean => {
+    if (!project) {
+      toast.error('No project open');
+      return false;
+    }
 
-      // REMOVED: setConnections(updatedConnections); - Local state sync is not needed here,
-      // the component should react to the updated project prop.
+    const validation = validateManyToMany(
+      project.tables.find((t) => t.id === sourceId),
+      project.tables.find((t) => t.id === targetId)
+    );
+    if (!validation.valid) {
+      validation.errors.forEach((error) => toast.error(error));
+      return false;
+    }
 
-      return {
-        ...prevProject,
-        connections: updatedConnections,
-        tables: updatedTables, // Include updated tables
-        updatedAt: new Date().toISOString(),
-      };
+    updateProject((draft) => {
+      addJunctionTable(draft, sourceId, targetId);
+      draft.updatedAt = new Date().toISOString();
     });
+    return true;
+  };
 
-    toast.success('Connection deleted');
+  // Removes the link table together with its connections
+  const deleteManyToMany = (junctionId: string): boolean => {
+    if (!project?.tables.some((t) => t.id === junctionId && t.junction)) {
+      toast.error('Many-to-many relation not found');
+      return false;
+    }
+
+    updateProject((draft) => {
+      draft.tables = draft.tables.filter((t) => t.id !== junctionId);
+      draft.connections = draft.connections.filter(
+        (c) => c.sourceId !== junctionId && c.targetId !== junctionId
+      );
+      draft.updatedAt = new Date().toISOString();
+    });
     return true;
   };
 
@@ -158,6 +153,8 @@ export const useConnections = (
     addConnection,
     updateConnection,
     deleteConnection,
+    addManyToMany,
+    deleteManyToMany,
     validateConnection,
   };
 };
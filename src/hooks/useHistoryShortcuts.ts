@@ -0,0 +1,39 @@
+import { useEffect } from 'react';
+
+interface UseHistoryShortcutsArgs {
+  undo: () => void;
+  redo: () => void;
+}
+
+// Ctrl/Cmd+Z undoes, Shift+Ctrl/Cmd+Z (or Ctrl+Y) redoes. Text inputs keep their native undo.
+export const useHistoryShortcuts = ({ undo, redo }: UseHistoryShortcutsArgs): void => {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent): void => {
+      const isMac = navigator.platform.toUpperCase().indexOf('MAC') >= 0;
+      if (!(isMac ? event.metaKey : event.ctrlKey)) return;
+
+      const target = event.target as HTMLElement | null;
+      if (
+        target &&
+        (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)
+      ) {
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        undo();
+        event.preventDefault();
+      } else if ((key === 'z' && event.shiftKey) || (key === 'y' && !isMac)) {
+        redo();
+        event.preventDefault();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+
+    return (): void => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [undo, redo]);
+};
@@ -1,20 +1,23 @@
 import { useState, useEffect } from 'react';
 import { toast } from 'sonner';
 import { v4 as uuidv4 } from 'uuid';
-import { produce } from 'immer';
-import { validateTable } from '@/utils/validation';
+import { getReferentialActionErrors, validateTable } from '@/utils/validation';
 import { handleError } from '@/utils/errorHandling';
-import { TableNode, Project, Position } from '@/types/schema';
+import { syncJunctionTables } from '@/utils/junctionTables';
+import { applyTableDeletion, ForeignKeyColumnMode } from '@/utils/tableDeletion';
+import { remapConstraintFields } from '@/utils/tableConstraints';
+import { remapIndexFields } from '@/utils/tableIndexes';
+import { getProjectDialect } from '@/utils/typeCatalog';
+import { TableNode, Project, Position, ProjectRecipe } from '@/types/schema';
 
-// Update the type of updateProject to accept the updater function
 export const useTables = (
   project: Project | null,
-  updateProject: (updater: (prevProject: Project | null) => Project) => void
+  updateProject: (recipe: ProjectRecipe) => void
 ): {
   tables: TableNode[];
   addTable: (table: Omit<TableNode, 'id' | 'position'>, position: Position) => TableNode | null;
   updateTable: (table: TableNode) => boolean;
-  deleteTable: (id: string) => boolean;
+  deleteTable: (id: string, foreignKeyColumns?: ForeignKeyColumnMode) => boolean;
   duplicateTable: (id: string) => TableNode | null;
 } => {
   const [tables, setTables] = useState<TableNode[]>(project?.tables || []);
@@ -46,20 +49,17 @@ export const useTables = (
     };
 
     // Validate table before adding
-    const validation = validateTable(newTable);
+    const validation = validateTable(newTable, getProjectDialect(project));
     if (!validation.valid) {
       validation.errors.forEach((error) => toast.error(error));
       return null;
     }
 
-    // Update project state using Immer
-    updateProject(
-      produce((draft) => {
-        draft.tables.push(newTable);
-        draft.updatedAt = new Date().toISOString();
-        setTables(draft.tables); // Keep local state sync
-      })
-    );
+    // Local state follows through the effect above
+    updateProject((draft) => {
+      draft.tables.push(newTable);
+      draft.updatedAt = new Date().toISOString();
+    });
 
     return newTable;
   };
@@ -72,43 +72,54 @@ export const useTables = (
       return false;
     }
 
-    const updatedTables = tables.map((t) => (t.id === table.id ? table : t));
-
-    // Validate table before updating
-    const validation = validateTable(table);
-    if (!validation.valid) {
-      validation.errors.forEach((error) => toast.error(error));
+    // Only problems the change brings in block it. A table saved with some, e.g. by an import,
+    // can still be moved, folded or fixed one field at a time.
+    const dialect = getProjectDialect(project);
+    const tableErrors = (tables: TableNode[]): string[] => {
+      const current = tables.find((t) => t.id === table.id);
+      if (!current) return [];
+      // Its columns must still accept what the ON DELETE / ON UPDATE actions write
+      const actionErrors = project.connections
+        .filter((c) => c.sourceId === table.id)
+        .flatMap((c) => getReferentialActionErrors(c, tables, dialect));
+      return [...validateTable(current, dialect).errors, ...actionErrors];
+    };
+    const knownErrors = tableErrors(project.tables);
+    const newErrors = tableErrors(
+      project.tables.map((t) => (t.id === table.id ? table : t))
+    ).filter((e) => !knownErrors.includes(e));
+    if (newErrors.length > 0) {
+      newErrors.forEach((error) => toast.error(error));
       return false;
     }
 
-    // Update project state using Immer
-    updateProject(
-      produce((draft) => {
-        draft.tables = updatedTables;
-        draft.updatedAt = new Date().toISOString();
-        setTables(draft.tables); // Keep local state sync
-      })
-    );
+    updateProject((draft) => {
+      // Update the draft rather than `tables`, so several updates in one tick all apply
+      const index = draft.tables.findIndex((t) => t.id === table.id);
+      if (index !== -1) draft.tables[index] = table;
+      syncJunctionTables(draft);
+      draft.updatedAt = new Date().toISOString();
+    });
 
     return true;
   };
 
-  const deleteTable = (id: string): boolean => {
+  // Relations to the table go with it; referencing columns elsewhere lose only their foreign
+  // key unless told to drop them
+  const deleteTable = (
+    id: string,
+    foreignKeyColumns: ForeignKeyColumnMode = 'dropConstraints'
+  ): boolean => {
     if (!project) {
       toast.error('No project open');
       return false;
     }
 
-    const updatedTables = tables.filter((t) => t.id !== id);
-
-    // Update project state using Immer
-    updateProject(
-      produce((draft) => {
-        draft.tables = updatedTables;
-        draft.updatedAt = new Date().toISOString();
-        setTables(draft.tables); // Keep local state sync
-      })
-    );
+    // One update, so the deletion is undone in one step
+    updateProject((draft) => {
+      applyTableDeletion(draft, id, foreignKeyColumns);
+      draft.updatedAt = new Date().toISOString();
+    });
 
     return true;
   };
@@ -126,12 +137,11 @@ export const useTables = (
     }
 
     // Create a deep copy and generate new field IDs
+    const fieldIds = new Map(originalTable.fields.map((field) => [field.id, uuidv4()]));
     const duplicatedFields = originalTable.fields.map((field) => ({
       ...field,
-      id: uuidv4(), // Generate new unique ID for each field
-      // Reset foreign key if needed, or handle duplication logic carefully
-      // For now, let's keep FK but it might point to the original table's fields
-      // A more robust solution might involve updating FKs based on duplicated table context
+      id: fieldIds.get(field.id) as string, // Generate new unique ID for each field
+      // Foreign keys keep referencing the same columns by id
     }));
 
     const newTable: TableNode = {
@@ -144,28 +154,15 @@ export const useTables = (
         y: originalTable.position.y + 20,
       },
       fields: duplicatedFields, // Use fields with new IDs
+      constraints:
+        originalTable.constraints && remapConstraintFields(originalTable.constraints, fieldIds),
+      indexes: originalTable.indexes && remapIndexFields(originalTable.indexes, fieldIds),
+      junction: undefined, // A copy of a link table is an ordinary table
     };
 
-    // Update project state using the updater function
-    updateProject((prevProject) => {
-      if (!prevProject) {
-        // Fallback to current project if prevProject is null (shouldn't happen)
-        return project ?? {
-          id: '',
-          name: '',
-          tables: [],
-          connections: [],
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        };
-      }
-      const updatedTables = [...prevProject.tables, newTable];
-      setTables(updatedTables); // Keep local state sync
-      return {
-        ...prevProject,
-        tables: updatedTables,
-        updatedAt: new Date().toISOString(),
-      };
+    updateProject((draft) => {
+      draft.tables.push(newTable);
+      draft.updatedAt = new Date().toISOString();
     });
 
     return newTable;
@@ -0,0 +1,117 @@
+import { useCallback, useRef, useState } from 'react';
+import { Patch } from 'immer';
+
+export interface HistoryEntry {
+  patches: Patch[];
+  inversePatches: Patch[];
+}
+
+const DEFAULT_HISTORY_LIMIT = 100;
+
+// Bounded undo/redo stacks of Immer patches. Entries recorded between beginGroup and endGroup
+// are merged into a single step, e.g. for a drag or an auto-layout run.
+export const useUndoHistory = (
+  limit = DEFAULT_HISTORY_LIMIT
+): {
+  canUndo: boolean;
+  canRedo: boolean;
+  record: (patches: Patch[], inversePatches: Patch[]) => void;
+  takeUndo: () => HistoryEntry | undefined;
+  takeRedo: () => HistoryEntry | undefined;
+  beginGroup: () => void;
+  endGroup: () => void;
+  clear: () => void;
+} => {
+  const undoStack = useRef<HistoryEntry[]>([]);
+  const redoStack = useRef<HistoryEntry[]>([]);
+  const group = useRef<{ entry: HistoryEntry; depth: number } | null>(null);
+  const [sizes, setSizes] = useState({ undo: 0, redo: 0 });
+
+  const syncSizes = useCallback((): void => {
+    setSizes({ undo: undoStack.current.length, redo: redoStack.current.length });
+  }, []);
+
+  const push = useCallback(
+    (entry: HistoryEntry): void => {
+      undoStack.current = [...undoStack.current, entry].slice(-limit);
+      redoStack.current = [];
+      syncSizes();
+    },
+    [limit, syncSizes]
+  );
+
+  const record = useCallback(
+    (patches: Patch[], inversePatches: Patch[]): void => {
+      if (patches.length === 0) return;
+
+      if (group.current) {
+        const { entry } = group.current;
+        entry.patches.push(...patches);
+        // Inverse patches are applied newest first
+        entry.inversePatches.unshift(...inversePatches);
+        return;
+      }
+      push({ patches, inversePatches });
+    },
+    [push]
+  );
+
+  const beginGroup = useCallback((): void => {
+    if (group.current) {
+      group.current.depth += 1;
+    } else {
+      group.current = { entry: { patches: [], inversePatches: [] }, depth: 1 };
+    }
+  }, []);
+
+  const endGroup = useCallback((): void => {
+    if (!group.current) return;
+
+    group.current.depth -= 1;
+    if (group.current.depth > 0) return;
+
+    const { entry } = group.current;
+    group.current = null;
+    if (entry.patches.length > 0) {
+      push(entry);
+    }
+  }, [push]);
+
+  const takeUndo = useCallback((): HistoryEntry | undefined => {
+    const entry = undoStack.current[undoStack.current.length - 1];
+    if (!entry) return undefined;
+
+    undoStack.current = undoStack.current.slice(0, -1);
+    redoStack.current = [...redoStack.current, entry];
+    syncSizes();
+    return entry;
+  }, [syncSizes]);
+
+  const takeRedo = useCallback((): HistoryEntry | undefined => {
+    const entry = redoStack.current[redoStack.current.length - 1];
+    if (!entry) return undefined;
+
+    redoStack.current = redoStack.current.slice(0, -1);
+    undoStack.current = [...undoStack.current, entry];
+    syncSizes();
+    return entry;
+  }, [syncSizes]);
+
+  const clear = useCallback((): void => {
+    undoStack.current = [];
+    redoStack.current = [];
+    group.current = null;
+    syncSizes();
+  }, [syncSizes]);
+
+  return {
+    canUndo: sizes.undo > 0,
+    canRedo: sizes.redo > 0,
+    record,
+    takeUndo,
+    takeRedo,
+    beginGroup,
+    endGroup,
+    clear,
+  };
+};
@@ -24,6 +24,17 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { parseSQLSchema, SQLImportSummary } from '@/utils/sqlParser';
+import { importColumnDefinitions } from '@/utils/jsonImporter';
+import { handleError } from '@/utils/errorHandling';
+import { QuarantinedProject } from '@/utils/projectFormat';
+import {
+  parseProjectFile,
+  PROJECT_FILE_EXTENSION,
+  serializeProjectFile,
+} from '@/utils/projectFile';
+import { Project } from '@/types/schema';
 import {
   Database,
   FolderPlus,
@@ -33,67 +44,34 @@ import {
   Import,
   Layers,
   FileJson,
+  AlertTriangle,
+  Download,
+  FileUp,
 } from 'lucide-react';
 
-interface ImportedColumnDef {
-  table_name: string;
-  column_name: string;
-  data_type: string;
-  column_default?: string | null;
-  is_nullable?: string;
-  referenced_table_name?: string | null;
-  referenced_column_name?: string | null;
-}
-
 const Dashboard = (): JSX.Element => {
   const navigate = useNavigate();
-  const { projects, createProject, deleteProject, duplicateProject, updateFullProject } = useProject();
+  const {
+    projects,
+    quarantinedProjects,
+    discardQuarantinedProject,
+    createProject,
+    deleteProject,
+    duplicateProject,
+    importProject,
+  } = useProject();
   const [newProjectName, setNewProjectName] = useState('Untitled Project');
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
   const [importTabValue, setImportTabValue] = useState('sql');
   const [sqlImport, setSqlImport] = useState('');
   const [jsonImport, setJsonImport] = useState('');
-  const [fileContent, setFileContent] = useState<ImportedColumnDef[] | null>(null);
-
-  const processImportedJson = (jsonData: ImportedColumnDef[], projectId: string): void => {
-    updateFullProject((prevProject) => {
-      if (!prevProject || prevProject.id !== projectId) return prevProject;
-      
-      const tablesMap = new Map<string, any>();
-      
-      jsonData.forEach((columnDef) => {
-        if (!tablesMap.has(columnDef.table_name)) {
-          tablesMap.set(columnDef.table_name, {
-            name: columnDef.table_name,
-            columns: [],
-            relationships: []
-          });
-        }
-        
-        const table = tablesMap.get(columnDef.table_name);
-        table.columns.push({
-          name: columnDef.column_name,
-          type: columnDef.data_type,
-          nullable: columnDef.is_nullable === 'YES',
-          defaultValue: columnDef.column_default
-        });
-        
-        if (columnDef.referenced_table_name && columnDef.referenced_column_name) {
-          table.relationships.push({
-            targetTable: columnDef.referenced_table_name,
-            sourceColumn: columnDef.column_name,
-            targetColumn: columnDef.referenced_column_name
-          });
-        }
-      });
-      
-      return {
-        ...prevProject,
-        tables: Array.from(tablesMap.values())
-      };
-    });
-  };
+  const [fileContent, setFileContent] = useState<unknown[] | null>(null);
+  const [projectFile, setProjectFile] = useState<{ name: string; content: string } | null>(null);
+  const [sqlImportResult, setSqlImportResult] = useState<{
+    projectId: string;
+    summary: SQLImportSummary;
+  } | null>(null);
 
   const handleCreateProject = (): void => {
     if (newProjectName.trim()) {
@@ -105,22 +83,66 @@ const Dashboard = (): JSX.Element => {
 
   const handleImportProject = (): void => {
     if (importTabValue === 'sql' && sqlImport.trim()) {
+      const { tables, connections, summary } = parseSQLSchema(sqlImport);
+      if (tables.length === 0) {
+        toast.error('No CREATE TABLE statements found', {
+          description: `${summary.skipped.length} statement(s) were skipped`,
+        });
+        return;
+      }
+
+      const project = createProject('Imported SQL Project', { tables, connections });
       setIsImportDialogOpen(false);
       setSqlImport('');
+
+      // Only stop to show the summary when something could not be imported
+      if (summary.skipped.length > 0 || summary.warnings.length > 0) {
+        setSqlImportResult({ projectId: project.id, summary });
+      } else {
+        navigate(`/project/${project.id}`);
+      }
     } else if (importTabValue === 'json' && (jsonImport.trim() || fileContent)) {
+      let jsonData: unknown;
       try {
-        const jsonData = fileContent || JSON.parse(jsonImport);
-        if (Array.isArray(jsonData)) {
-          const newProject = createProject(`Imported JSON Project`);
-          processImportedJson(jsonData, newProject.id);
-          navigate(`/project/${newProject.id}`);
-        }
+        jsonData = fileContent || JSON.parse(jsonImport);
       } catch (error) {
-        console.error('Error parsing JSON:', error);
+        handleError(error, 'Invalid JSON: the input could not be parsed', {
+          context: 'Dashboard.handleImportProject',
+        });
+        return;
       }
+
+      const { valid, errors, tables, connections, warnings } = importColumnDefinitions(jsonData);
+      if (!valid) {
+        toast.error('Invalid column definitions', { description: errors.join('\n') });
+        return;
+      }
+
+      const newProject = createProject('Imported JSON Project', { tables, connections });
+      if (warnings.length > 0) {
+        toast.warning(`Imported with ${warnings.length} warning(s)`, {
+          description: warnings.slice(0, 3).join('\n'),
+        });
+      }
+      navigate(`/project/${newProject.id}`);
       setIsImportDialogOpen(false);
       setJsonImport('');
       setFileContent(null);
+    } else if (importTabValue === 'project' && projectFile) {
+      let project: Project;
+      try {
+        project = parseProjectFile(projectFile.content);
+      } catch (error) {
+        toast.error(`Could not import ${projectFile.name}`, {
+          description: error instanceof Error ? error.message : undefined,
+        });
+        return;
+      }
+
+      const newProject = importProject(project);
+      setIsImportDialogOpen(false);
+      setProjectFile(null);
+      navigate(`/project/${newProject.id}`);
     }
   };
 
@@ -128,6 +150,48 @@ const Dashboard = (): JSX.Element => {
     navigate(`/project/${id}`);
   };
 
+  const downloadFile = (content: string, fileName: string): void => {
+    const blob = new Blob([content], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  // Lets the user keep a copy of data that could not be loaded before discarding it
+  const handleDownloadQuarantined = (project: QuarantinedProject): void => {
+    downloadFile(
+      JSON.stringify(project.data, null, 2),
+      `${project.name.replace(/\s+/g, '_')}.backup.json`
+    );
+  };
+
+  const handleExportProjectFile = (project: Project): void => {
+    downloadFile(
+      serializeProjectFile(project),
+      `${project.name.replace(/\s+/g, '_')}${PROJECT_FILE_EXTENSION}`
+    );
+    toast.success(`Project "${project.name}" exported`);
+  };
+
+  const handleProjectFileUpload = (event: React.ChangeEvent<HTMLInputElement>): void => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e: ProgressEvent<FileReader>): void => {
+      setProjectFile({ name: file.name, content: e.target?.result as string });
+    };
+    reader.onerror = (): void => {
+      toast.error('Error reading file.');
+    };
+    reader.readAsText(file);
+  };
+
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>): void => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -137,9 +201,12 @@ const Dashboard = (): JSX.Element => {
       try {
         const content = e.target?.result as string;
         const jsonData = JSON.parse(content);
+        if (!Array.isArray(jsonData)) {
+          throw new Error('Expected an array of column definitions');
+        }
         setFileContent(jsonData);
       } catch (error) {
-        console.error('Error reading JSON file:', error);
+        handleError(error, 'Error reading JSON file', { context: 'Dashboard.handleFileUpload' });
       }
     };
     reader.readAsText(file);
@@ -179,6 +246,51 @@ const Dashboard = (): JSX.Element => {
       </header>
 
       <main className="flex-1 container py-8">
+        {quarantinedProjects.length > 0 && (
+          <div className="max-w-5xl mx-auto mb-6 p-4 border border-destructive/50 rounded-md space-y-3">
+            <div className="flex items-center gap-2 text-destructive font-medium">
+              <AlertTriangle className="h-4 w-4" />
+              <span>
+                {quarantinedProjects.length} saved project(s) could not be loaded and were set aside
+              </span>
+            </div>
+            {quarantinedProjects.map((project) => (
+              <div
+                key={project.id}
+                className="flex items-center justify-between gap-4 p-2 rounded-md bg-muted/50 text-sm"
+              >
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{project.name}</div>
+                  <div className="text-muted-foreground text-xs break-words">{project.error}</div>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Download the saved data"
+                    onClick={() => handleDownloadQuarantined(project)}
+                  >
+                    <Download className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-destructive"
+                    title="Delete permanently"
+                    onClick={() => {
+                      if (confirm(`Permanently delete the saved data of "${project.name}"?`)) {
+                        discardQuarantinedProject(project.id);
+                      }
+                    }}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
         <Tabs defaultValue="recent" className="max-w-5xl mx-auto">
           <div className="flex justify-between items-center mb-6">
             <TabsList>
@@ -232,6 +344,14 @@ const Dashboard = (): JSX.Element => {
                         >
                           <Copy className="h-4 w-4" />
                         </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Export project file"
+                          onClick={() => handleExportProjectFile(project)}
+                        >
+                          <Download className="h-4 w-4" />
+                        </Button>
                         <Button
                           variant="ghost"
                           size="icon"
@@ -302,6 +422,14 @@ const Dashboard = (): JSX.Element => {
                           >
                             <Copy className="h-4 w-4" />
                           </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Export project file"
+                            onClick={() => handleExportProjectFile(project)}
+                          >
+                            <Download className="h-4 w-4" />
+                          </Button>
                           <Button
                             variant="ghost"
                             size="icon"
@@ -363,11 +491,13 @@ const Dashboard = (): JSX.Element => {
         <DialogContent className="max-w-md">
           <DialogHeader>
             <DialogTitle>Import Project</DialogTitle>
-            <DialogDescription>Import a project from SQL or JSON format.</DialogDescription>
+            <DialogDescription>
+              Import a project from SQL, JSON column definitions or a {PROJECT_FILE_EXTENSION} file.
+            </DialogDescription>
           </DialogHeader>
 
           <Tabs value={importTabValue} onValueChange={setImportTabValue} className="mt-2">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="sql" className="flex items-center gap-2">
                 <Database className="h-4 w-4" />
                 <span>SQL</span>
@@ -376,6 +506,10 @@ const Dashboard = (): JSX.Element => {
                 <FileJson className="h-4 w-4" />
                 <span>JSON</span>
               </TabsTrigger>
+              <TabsTrigger value="project" className="flex items-center gap-2">
+                <FileUp className="h-4 w-4" />
+                <span>Project</span>
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="sql" className="mt-4">
@@ -421,6 +555,30 @@ const Dashboard = (): JSX.Element => {
                 </div>
               </div>
             </TabsContent>
+
+            <TabsContent value="project" className="mt-4">
+              <div className="grid gap-4 py-2">
+                <div className="grid gap-2">
+                  <Label htmlFor="project-file">Project File</Label>
+                  <Input
+                    id="project-file"
+                    type="file"
+                    accept={`${PROJECT_FILE_EXTENSION},.json`}
+                    onChange={handleProjectFileUpload}
+                    className="cursor-pointer"
+                  />
+                  <div className="text-sm text-muted-foreground">
+                    Restores a project exported from DB Canvas, including its layout, colors and
+                    settings.
+                  </div>
+                  {projectFile && (
+                    <div className="p-2 bg-muted text-muted-foreground rounded-md text-sm">
+                      File loaded: {projectFile.name}
+                    </div>
+                  )}
+                </div>
+              </div>
+            </TabsContent>
           </Tabs>
 
           <DialogFooter className="mt-4">
@@ -431,6 +589,70 @@ const Dashboard = (): JSX.Element => {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <Dialog
+        open={sqlImportResult !== null}
+        onOpenChange={(open) => !open && setSqlImportResult(null)}
+      >
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Import Summary</DialogTitle>
+            <DialogDescription>
+              Imported {sqlImportResult?.summary.tables} tables and{' '}
+              {sqlImportResult?.summary.relations} relations. Some statements could not be imported.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="max-h-[50vh] overflow-y-auto">
+            <div className="space-y-4 pr-2 text-sm">
+              {sqlImportResult && sqlImportResult.summary.skipped.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="font-medium">
+                    Skipped statements ({sqlImportResult.summary.skipped.length})
+                  </h4>
+                  {sqlImportResult.summary.skipped.map((skipped, index) => (
+                    <div key={index} className="p-2 border rounded-md bg-muted/50">
+                      <div className="font-mono text-xs">
+                        Line {skipped.line}: {skipped.statement}
+                      </div>
+                      <div className="text-muted-foreground text-xs">{skipped.reason}</div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {sqlImportResult && sqlImportResult.summary.warnings.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="font-medium">
+                    Warnings ({sqlImportResult.summary.warnings.length})
+                  </h4>
+                  <ul className="list-disc pl-5 space-y-1 text-muted-foreground">
+                    {sqlImportResult.summary.warnings.map((warning, index) => (
+                      <li key={index}>{warning}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {sqlImportResult && sqlImportResult.summary.ignored > 0 && (
+                <p className="text-muted-foreground">
+                  {sqlImportResult.summary.ignored} session statement(s) such as SET or PRAGMA were
+                  ignored.
+                </p>
+              )}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              onClick={() => {
+                if (sqlImportResult) handleOpenProject(sqlImportResult.projectId);
+                setSqlImportResult(null);
+              }}
+            >
+              Open Project
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -1,20 +1,67 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useProject } from '@/hooks/useProject'; // Updated import path
 import { DBCanvas } from '@/components/DBCanvas';
 import { Sidebar } from '@/components/Sidebar';
 import { Button } from '@/components/ui/button';
-import { toast } from 'sonner';
-import { Database, ArrowLeft, Plus, Download, Grid, Layers } from 'lucide-react';
+import {
+  Database,
+  ArrowLeft,
+  Plus,
+  Download,
+  Grid,
+  Layers,
+  Undo2,
+  Redo2,
+  Shapes,
+  AlertTriangle,
+  CaseSensitive,
+} from 'lucide-react';
 import { ThemeToggle } from '@/components/ThemeToggle';
+import { ExportSQLDialog } from '@/components/ExportSQLDialog';
+import { UserTypesDialog } from '@/components/UserTypesDialog';
+import { ProblemsPanel } from '@/components/ProblemsPanel';
+import { NamingConventionsDialog } from '@/components/NamingConventionsDialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { EdgeRouting, ERNotation, ProjectSettings } from '@/types/schema';
+import { EDGE_ROUTINGS, getProjectRouting } from '@/utils/edgeRouting';
+import { ER_NOTATIONS, getProjectNotation } from '@/utils/erNotation';
+import { LintProblem, countProblems, lintProject } from '@/utils/schemaLinter';
 
 const Editor = (): JSX.Element => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   // Destructure correctly: get tablesApi, remove non-existent/unused props
-  const { openProject, currentProject, exportProjectSQL } = useProject();
+  const {
+    openProject,
+    currentProject,
+    tablesApi,
+    updateFullProject,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+  } = useProject();
   const [showGrid, setShowGrid] = useState(true);
   const [showAddTable, setShowAddTable] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [showTypesDialog, setShowTypesDialog] = useState(false);
+  const [showNamingDialog, setShowNamingDialog] = useState(false);
+  const [selectedConnectionId, setSelectedConnectionId] = useState<string | null>(null);
+  const [showProblems, setShowProblems] = useState(false);
+  const [focusRequest, setFocusRequest] = useState<{ tableIds: string[] } | null>(null);
+
+  // Relinted on every change, so the panel is always current
+  const problems = useMemo(
+    () => (currentProject ? lintProject(currentProject) : []),
+    [currentProject]
+  );
 
   useEffect(() => {
     if (id) {
@@ -30,26 +77,6 @@ const Editor = (): JSX.Element => {
     }
   }, [showAddTable, currentProject, navigate]);
 
-  const handleExportSQL = (): void => {
-    if (!currentProject) return;
-
-    // Generate SQL for PostgreSQL by default
-    const sql = exportProjectSQL(currentProject.id, 'postgresql');
-
-    // Create a download link
-    const blob = new Blob([sql], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${currentProject.name.replace(/\s+/g, '_')}.sql`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-
-    toast.success('SQL exported successfully');
-  };
-
   const handleEditTable = (tableId: string): void => {
     const table = currentProject?.tables.find((t) => t.id === tableId);
     if (table && currentProject) {
@@ -57,6 +84,37 @@ const Editor = (): JSX.Element => {
     }
   };
 
+  // Shows a many-to-many link table as a node, or folds it back into a single edge
+  const handleToggleJunction = (tableId: string): void => {
+    const table = currentProject?.tables.find((t) => t.id === tableId);
+    if (table?.junction) {
+      tablesApi.updateTable({
+        ...table,
+        junction: { ...table.junction, collapsed: !table.junction.collapsed },
+      });
+    }
+  };
+
+  const handleSelectProblem = (problem: LintProblem): void => {
+    const table = currentProject?.tables.find((t) => t.id === problem.tableId);
+    if (!table) return;
+    // A collapsed link table is not on the canvas, its two sides are
+    setFocusRequest({
+      tableIds: table.junction?.collapsed
+        ? [table.junction.sourceTableId, table.junction.targetTableId]
+        : [table.id],
+    });
+    if (problem.connectionId) setSelectedConnectionId(problem.connectionId);
+  };
+
+  // Canvas display preferences, saved with the project
+  const updateSettings = (changes: Partial<ProjectSettings>): void => {
+    updateFullProject((draft) => {
+      if (!draft.settings) draft.settings = {};
+      Object.assign(draft.settings, changes);
+    });
+  };
+
   if (!currentProject) {
     // Project not found or not loaded yet
     return (
@@ -88,6 +146,24 @@ const Editor = (): JSX.Element => {
             </div>
           </div>
           <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={undo}
+              disabled={!canUndo}
+              title="Undo (Ctrl/Cmd+Z)"
+            >
+              <Undo2 className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={redo}
+              disabled={!canRedo}
+              title="Redo (Shift+Ctrl/Cmd+Z)"
+            >
+              <Redo2 className="h-4 w-4" />
+            </Button>
             <Button
               variant="outline"
               size="icon"
@@ -96,6 +172,38 @@ const Editor = (): JSX.Element => {
             >
               <Grid className="h-4 w-4" />
             </Button>
+            <Select
+              value={getProjectNotation(currentProject)}
+              onValueChange={(notation) => updateSettings({ notation: notation as ERNotation })}
+            >
+              <SelectTrigger className="w-36" title="Relationship notation">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ER_NOTATIONS.map((notation) => (
+                  <SelectItem key={notation.value} value={notation.value}>
+                    {notation.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={getProjectRouting(currentProject)}
+              onValueChange={(edgeRouting) =>
+                updateSettings({ edgeRouting: edgeRouting as EdgeRouting })
+              }
+            >
+              <SelectTrigger className="w-32" title="Edge routing">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EDGE_ROUTINGS.map((routing) => (
+                  <SelectItem key={routing.value} value={routing.value}>
+                    {routing.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             <Button
               variant="outline"
               className="flex items-center gap-2"
@@ -104,7 +212,38 @@ const Editor = (): JSX.Element => {
               <Plus className="h-4 w-4" />
               <span>Add Table</span>
             </Button>
-            <Button variant="outline" className="flex items-center gap-2" onClick={handleExportSQL}>
+            <Button
+              variant="outline"
+              className="flex items-center gap-2"
+              onClick={() => setShowTypesDialog(true)}
+            >
+              <Shapes className="h-4 w-4" />
+              <span>Types</span>
+            </Button>
+            <Button
+              variant="outline"
+              className="flex items-center gap-2"
+              onClick={() => setShowNamingDialog(true)}
+            >
+              <CaseSensitive className="h-4 w-4" />
+              <span>Naming</span>
+            </Button>
+            <Button
+              variant="outline"
+              className={`flex items-center gap-2 ${showProblems ? 'bg-accent' : ''}`}
+              onClick={() => setShowProblems(!showProblems)}
+              title="Schema problems"
+            >
+              <AlertTriangle
+                className={`h-4 w-4 ${countProblems(problems, 'error') > 0 ? 'text-destructive' : ''}`}
+              />
+              <span>{problems.length}</span>
+            </Button>
+            <Button
+              variant="outline"
+              className="flex items-center gap-2"
+              onClick={() => setShowExportDialog(true)}
+            >
               <Download className="h-4 w-4" />
               <span>Export SQL</span>
             </Button>
@@ -114,11 +253,47 @@ const Editor = (): JSX.Element => {
       </header>
 
       <div className="flex-1 flex overflow-hidden">
-        <div className="flex-1 relative overflow-hidden">
-          <DBCanvas project={currentProject} showGrid={showGrid} onEditTable={handleEditTable} />
+        <div className="flex-1 flex flex-col overflow-hidden">
+          <div className="flex-1 relative overflow-hidden">
+            <DBCanvas
+              project={currentProject}
+              showGrid={showGrid}
+              onEditTable={handleEditTable}
+              onToggleJunction={handleToggleJunction}
+              onSelectConnection={setSelectedConnectionId}
+              focusRequest={focusRequest}
+            />
+          </div>
+          {showProblems && (
+            <ProblemsPanel
+              problems={problems}
+              onSelectProblem={handleSelectProblem}
+              onClose={() => setShowProblems(false)}
+            />
+          )}
         </div>
-        <Sidebar onEditTable={handleEditTable} />
+        <Sidebar
+          onEditTable={handleEditTable}
+          selectedConnectionId={selectedConnectionId}
+          onCloseConnection={() => setSelectedConnectionId(null)}
+        />
       </div>
+
+      <ExportSQLDialog
+        project={currentProject}
+        open={showExportDialog}
+        onOpenChange={setShowExportDialog}
+      />
+      <UserTypesDialog
+        project={currentProject}
+        open={showTypesDialog}
+        onOpenChange={setShowTypesDialog}
+      />
+      <NamingConventionsDialog
+        project={currentProject}
+        open={showNamingDialog}
+        onOpenChange={setShowNamingDialog}
+      />
     </div>
   );
 };
@@ -4,9 +4,16 @@ import { useParams, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
-import { Field } from '@/types/schema';
+import { Field, TableConstraint, TableIndex } from '@/types/schema';
 import { FieldEditorTable } from '@/components/FieldEditorTable';
+import { ConstraintsEditor } from '@/components/ConstraintsEditor';
+import { IndexesEditor } from '@/components/IndexesEditor';
+import { pruneConstraints } from '@/utils/tableConstraints';
+import { pruneIndexes } from '@/utils/tableIndexes';
+import { getProjectDialect } from '@/utils/typeCatalog';
+import { getReservedWordWarning } from '@/utils/validation';
 import { useProject } from '@/hooks/useProject';
 import { toast } from 'sonner';
 import { Separator } from '@/components/ui/separator';
@@ -28,7 +35,10 @@ export function TableEditorPage(): JSX.Element {
 
   const [tableName, setTableName] = useState('');
   const [tableColor, setTableColor] = useState('');
+  const [tableComment, setTableComment] = useState('');
   const [fields, setFields] = useState<Field[]>([]);
+  const [constraints, setConstraints] = useState<TableConstraint[]>([]);
+  const [indexes, setIndexes] = useState<TableIndex[]>([]);
   const [isEditing, setIsEditing] = useState(false);
 
   // Load table data if editing
@@ -39,7 +49,10 @@ export function TableEditorPage(): JSX.Element {
         setIsEditing(true);
         setTableName(table.name);
         setTableColor(table.color || '');
+        setTableComment(table.comment ?? '');
         setFields(table.fields.map((f) => ({ ...f })));
+        setConstraints(table.constraints ?? []);
+        setIndexes(table.indexes ?? []);
       }
     } else {
       // Default fields for new table
@@ -56,6 +69,8 @@ export function TableEditorPage(): JSX.Element {
     }
   }, [tableId, currentProject]);
 
+  const tableNameWarning = getReservedWordWarning(tableName, getProjectDialect(currentProject));
+
   const handleFieldsChange = (newFields: Field[]): void => {
     setFields(newFields);
   };
@@ -73,27 +88,42 @@ export function TableEditorPage(): JSX.Element {
       }
     }
 
+    // Constraints and indexes may still point at fields removed while editing
+    const tableConstraints = pruneConstraints(fields, constraints);
+    const tableIndexes = pruneIndexes(fields, indexes);
+
     if (isEditing && tableId) {
       const table = currentProject?.tables.find((t) => t.id === tableId);
-      if (table) {
-        tablesApi.updateTable({
+      // Validation errors are toasted by the hook, keep the editor open to fix them
+      if (
+        table &&
+        !tablesApi.updateTable({
           ...table,
           name: tableName,
           color: tableColor,
+          comment: tableComment.trim() || undefined,
           fields,
+          constraints: tableConstraints,
+          indexes: tableIndexes,
           position: table.position, // Ensure position is included
-        });
+        })
+      ) {
+        return;
       }
       toast.success('Table updated successfully');
     } else if (currentProject) {
-      tablesApi.addTable(
+      const created = tablesApi.addTable(
         {
           name: tableName,
           color: tableColor,
+          comment: tableComment.trim() || undefined,
           fields,
+          constraints: tableConstraints,
+          indexes: tableIndexes,
         },
         { x: 0, y: 0 } // Default position
       );
+      if (!created) return;
       toast.success('Table created successfully');
     } else {
       toast.error('No project selected');
@@ -125,6 +155,7 @@ export function TableEditorPage(): JSX.Element {
                 onChange={(e) => setTableName(e.target.value)}
                 placeholder="Enter table name"
               />
+              {tableNameWarning && <p className="text-xs text-amber-500">{tableNameWarning}</p>}
             </div>
 
             <div className="grid gap-2">
@@ -160,6 +191,17 @@ export function TableEditorPage(): JSX.Element {
                 })}
               </RadioGroup>
             </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="tableComment">Comment</Label>
+              <Textarea
+                id="tableComment"
+                value={tableComment}
+                onChange={(e) => setTableComment(e.target.value)}
+                placeholder="Describe what the table stores"
+                rows={2}
+              />
+            </div>
           </div>
         </div>
 
@@ -172,6 +214,30 @@ export function TableEditorPage(): JSX.Element {
             fields={fields}
             onChange={handleFieldsChange}
             availableTables={availableTablesForFK}
+            dialect={getProjectDialect(currentProject)}
+            userTypes={currentProject?.userTypes}
+          />
+        </div>
+
+        {/* Constraints Section */}
+        <div className="space-y-4 bg-slate-900/50 p-6 rounded-lg">
+          <h2 className="text-lg font-semibold mb-4">Constraints</h2>
+          <ConstraintsEditor
+            tableName={tableName}
+            fields={fields}
+            constraints={constraints}
+            onChange={setConstraints}
+          />
+        </div>
+
+        {/* Indexes Section */}
+        <div className="space-y-4 bg-slate-900/50 p-6 rounded-lg">
+          <h2 className="text-lg font-semibold mb-4">Indexes</h2>
+          <IndexesEditor
+            tableName={tableName}
+            fields={fields}
+            indexes={indexes}
+            onChange={setIndexes}
           />
         </div>
       </div>
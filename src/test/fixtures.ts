@@ -0,0 +1,19 @@
+// fixtures.ts
+import exampleColumns from '../../documentation/json_example.json?raw';
+import { Project } from '@/types/schema';
+import { importColumnDefinitions } from '@/utils/jsonImporter';
+import { CURRENT_FORMAT_VERSION } from '@/utils/projectFormat';
+
+// The sample schema from documentation/json_example.json, imported the way the Dashboard does
+export const loadExampleProject = (): Project => {
+  const { tables, connections } = importColumnDefinitions(JSON.parse(exampleColumns));
+  return {
+    formatVersion: CURRENT_FORMAT_VERSION,
+    id: 'example',
+    name: 'Example',
+    tables,
+    connections,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+};
@@ -1,5 +1,6 @@
 import { useTables } from '@/hooks/useTables';
 import { useConnections } from '@/hooks/useConnections';
+import type { QuarantinedProject } from '@/utils/projectFormat';
 
 export interface Position {
   x: number;
@@ -28,31 +29,73 @@ export interface Field<T extends FieldType = FieldType> {
   primary: boolean;
   unique: boolean;
   defaultValue?: string | number | boolean | null;
+  autoIncrement?: boolean; // Emitted as IDENTITY / AUTO_INCREMENT / AUTOINCREMENT depending on dialect
+  check?: string; // Column CHECK expression, emitted verbatim
+  comment?: string;
   foreignKey?: {
     tableId: string;
-    fieldName: string;
+    fieldId: string;
   };
 }
 
-// Interface to represent a database data type, potentially with parameters
+export interface DataTypeParam {
+  kind: 'length' | 'precision' | 'scale';
+  min: number;
+  max: number;
+  default?: number; // Filled in when the type is picked, params without one start empty
+}
+
+// Entry of the per-dialect type catalog, see utils/typeCatalog.ts
 export interface DataType {
-  name: string; // e.g., 'VARCHAR', 'INT', 'DECIMAL'
-  params?: number[]; // e.g., [255] for VARCHAR(255), [10, 2] for DECIMAL(10,2)
-  // We might add more properties later, like requiresParams: boolean
-}
-
-// Example list of common data types (can be expanded)
-export const COMMON_DATA_TYPES: DataType[] = [
-  { name: 'INT' },
-  { name: 'VARCHAR', params: [255] },
-  { name: 'TEXT' },
-  { name: 'DATE' },
-  { name: 'DATETIME' },
-  { name: 'BOOLEAN' },
-  { name: 'DECIMAL', params: [10, 2] },
-  { name: 'FLOAT' },
-  { name: 'DOUBLE' },
-];
+  name: string; // e.g. 'VARCHAR', 'TIMESTAMPTZ', 'DOUBLE PRECISION'
+  params?: DataTypeParam[]; // Optional parenthesized parameters, in order
+  values?: boolean; // Takes a list of quoted string values instead, e.g. ENUM('a', 'b')
+  unsigned?: boolean; // Accepts the MySQL UNSIGNED modifier
+}
+
+// Table-level constraints. Columns are referenced by field id so renames keep them.
+// Primary keys stay on Field.primary: marking several fields gives a composite key.
+export interface UniqueConstraint {
+  id: string;
+  type: 'unique';
+  name?: string; // Generated from the table and column names when empty
+  fieldIds: string[];
+}
+
+export interface CheckConstraint {
+  id: string;
+  type: 'check';
+  name?: string; // Generated from the table name when empty
+  expression: string; // Emitted verbatim, may span several columns
+}
+
+export type TableConstraint = UniqueConstraint | CheckConstraint;
+
+export type IndexMethod = 'btree' | 'hash' | 'gin';
+
+export interface IndexColumn {
+  fieldId?: string;
+  expression?: string; // Takes the place of fieldId in expression indexes, e.g. lower(email)
+  order: 'asc' | 'desc';
+}
+
+export interface TableIndex {
+  id: string;
+  name?: string; // Generated from the table and column names when empty
+  columns: IndexColumn[]; // In index order
+  unique: boolean;
+  method?: IndexMethod; // Only emitted for PostgreSQL, which defaults to btree
+  where?: string; // Predicate of a partial index, emitted verbatim
+}
+
+// Marks the link table of a many-to-many relation, see utils/junctionTables.ts
+export interface JunctionInfo {
+  sourceTableId: string;
+  targetTableId: string;
+  sourceFieldIds: string[]; // Columns referencing the source primary key, in key order
+  targetFieldIds: string[];
+  collapsed: boolean; // Drawn as a single edge between the two tables instead of a node
+}
 
 export interface TableNode {
   id: string;
@@ -60,18 +103,48 @@ export interface TableNode {
   fields: Field[];
   position: Position;
   color?: string; // Color property for table styling
+  constraints?: TableConstraint[];
+  indexes?: TableIndex[];
+  comment?: string;
+  junction?: JunctionInfo;
+}
+
+// Project-level types, picked for a field by putting their name in Field.type
+export interface EnumType {
+  id: string;
+  kind: 'enum';
+  name: string;
+  values: string[];
+}
+
+export interface DomainType {
+  id: string;
+  kind: 'domain';
+  name: string;
+  baseType: string; // Any column type, e.g. VARCHAR(255)
+  notNull: boolean;
+  defaultValue?: string; // SQL expression or literal, translated like column defaults
+  check?: string; // Boolean expression over VALUE, e.g. VALUE ~ '^[^@]+@[^@]+$'
 }
 
+export type UserType = EnumType | DomainType;
+
+export type ReferentialAction = 'CASCADE' | 'SET NULL' | 'SET DEFAULT' | 'RESTRICT' | 'NO ACTION';
+
 export interface Connection {
   id: string;
   sourceId: string;
   targetId: string;
-  sourceField: string;
-  targetField: string;
+  sourceFieldId: string; // Columns are referenced by Field.id, so renaming one keeps its edges
+  targetFieldId: string;
   relationshipType: 'oneToOne' | 'oneToMany';
+  name?: string; // Foreign key constraint name, see getDefaultForeignKeyName in utils/relationships.ts
+  onDelete?: ReferentialAction; // Left out of the DDL when unset, so the database default applies
+  onUpdate?: ReferentialAction;
 }
 
 export interface Project {
+  formatVersion: number; // See CURRENT_FORMAT_VERSION in utils/projectFormat.ts
   id: string;
   name: string;
   tables: TableNode[];
@@ -80,27 +153,73 @@ export interface Project {
   updatedAt: string;
   description?: string;
   tags?: string[];
+  settings?: ProjectSettings;
+  userTypes?: UserType[];
 }
 
+// Per-project preferences that are saved along with the schema
+export interface ProjectSettings {
+  sqlExport?: SQLExportOptions;
+  notation?: ERNotation; // How relationship edges are drawn on the canvas
+  edgeRouting?: EdgeRouting;
+  naming?: NamingSettings; // Enforced by the linter and the apply-conventions command
+}
+
+export type ERNotation = 'crowsFoot' | 'idef1x' | 'uml' | 'simple';
+
+export type NamingConvention = 'snake_case' | 'camelCase' | 'PascalCase';
+
+// Patterns may use {table} (the singular table name) and {column}, see utils/namingConventions.ts
+export interface NamingSettings {
+  case: NamingConvention;
+  tableNames: 'singular' | 'plural' | 'any';
+  foreignKeyPattern: string; // e.g. '{table}_{column}' gives user_id for users.id
+  primaryKeyName: string; // e.g. 'id' or '{table}_id'
+}
+
+export type EdgeRouting = 'bezier' | 'straight' | 'smoothstep' | 'orthogonal';
+
 export type RelationType = 'oneToOne' | 'oneToMany';
 
+export type SQLDialect = 'mysql' | 'postgresql' | 'sqlite';
+
 export interface SQLExportOptions {
-  dialect: 'mysql' | 'postgresql' | 'sqlite';
+  dialect: SQLDialect;
   includeDropStatements: boolean;
-  includeTimestamps: boolean;
+  includeTimestamps: boolean; // Adds the generation date to the script header
+  identifierQuoting?: IdentifierQuoting; // 'always' when unset
 }
 
+// When table, column and other names are quoted in generated SQL
+export type IdentifierQuoting = 'always' | 'needed' | 'never';
+
+// Mutates a draft of the open project, see updateProject in NewProjectContext.tsx
+export type ProjectRecipe = (draft: Project) => void;
+
 // Type for the Project Context
 export interface ProjectContextType {
   projects: Project[];
+  // Saved projects that failed validation or migration, kept out of `projects`
+  quarantinedProjects: QuarantinedProject[];
+  discardQuarantinedProject: (id: string) => void;
   currentProject: Project | null;
   tablesApi: ReturnType<typeof useTables>;
   connectionsApi: ReturnType<typeof useConnections>;
-  createProject: (name: string) => Project;
+  createProject: (name: string, content?: Pick<Project, 'tables' | 'connections'>) => Project;
   openProject: (id: string) => void;
   deleteProject: (id: string) => void;
   duplicateProject: (id: string) => void;
-  // Update function now accepts an updater function for safe state updates
-  updateFullProject: (updater: (prevProject: Project | null) => Project) => void;
-  exportProjectSQL: (id: string, dbType: 'mysql' | 'postgresql' | 'sqlite') => string; // Added export function
+  importProject: (project: Project) => Project;
+  // Changes the open project by mutating an Immer draft; each call is one undo step
+  updateFullProject: (recipe: ProjectRecipe) => void;
+  // Saves preferences of the open project without an undo step
+  saveProjectSettings: (changes: Partial<ProjectSettings>) => void;
+  exportProjectSQL: (id: string, options?: Partial<SQLExportOptions>) => string;
+  // Undo/redo of project changes; updates between begin/endHistoryGroup count as one step
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  beginHistoryGroup: () => void;
+  endHistoryGroup: () => void;
 }
@@ -0,0 +1,239 @@
+// edgeRouting.ts
+import { EdgeRouting, Position as Point, Project } from '@/types/schema';
+
+export const EDGE_ROUTINGS: { value: EdgeRouting; label: string }[] = [
+  { value: 'bezier', label: 'Curved' },
+  { value: 'straight', label: 'Straight' },
+  { value: 'smoothstep', label: 'Step' },
+  { value: 'orthogonal', label: 'Orthogonal' },
+];
+
+export const DEFAULT_EDGE_ROUTING: EdgeRouting = 'bezier';
+
+export const getProjectRouting = (project: Project | null | undefined): EdgeRouting =>
+  project?.settings?.edgeRouting ?? DEFAULT_EDGE_ROUTING;
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const sameRects = (a: Rect[], b: Rect[]): boolean =>
+  a.length === b.length &&
+  a.every(
+    (rect, i) =>
+      rect.x === b[i].x &&
+      rect.y === b[i].y &&
+      rect.width === b[i].width &&
+      rect.height === b[i].height
+  );
+
+export type Side = 'left' | 'right';
+
+/**
+ * Sides of the two tables an edge attaches to: the facing ones when the tables sit next to each
+ * other, otherwise the same side on both, whichever keeps the ends closer.
+ */
+export const pickFacingSides = (
+  source: Rect,
+  target: Rect,
+  sameNode = false
+): { sourceSide: Side; targetSide: Side } => {
+  if (!sameNode && source.x + source.width <= target.x) {
+    return { sourceSide: 'right', targetSide: 'left' };
+  }
+  if (!sameNode && target.x + target.width <= source.x) {
+    return { sourceSide: 'left', targetSide: 'right' };
+  }
+  const leftGap = Math.abs(source.x - target.x);
+  const rightGap = Math.abs(source.x + source.width - (target.x + target.width));
+  const side = !sameNode && leftGap < rightGap ? 'left' : 'right';
+  return { sourceSide: side, targetSide: side };
+};
+
+// Clearance kept around tables, and how far an edge leaves its table before turning
+const MARGIN = 12;
+const STUB = 24;
+const BEND_PENALTY = 40;
+// Tables further than this from both ends are not considered when routing
+const SEARCH_PADDING = 400;
+
+const DIRECTIONS = [
+  { dx: 1, dy: 0 },
+  { dx: -1, dy: 0 },
+  { dx: 0, dy: 1 },
+  { dx: 0, dy: -1 },
+];
+
+const sorted = (values: number[]): number[] =>
+  [...new Set(values.map((v) => Math.round(v)))].sort((a, b) => a - b);
+
+// Drops repeated points and the middle point of straight runs
+const simplify = (points: Point[]): Point[] =>
+  points
+    .filter((point, i) => i === 0 || point.x !== points[i - 1].x || point.y !== points[i - 1].y)
+    .filter((point, i, unique) => {
+      const prev = unique[i - 1];
+      const next = unique[i + 1];
+      if (!prev || !next) return true;
+      return !(
+        (prev.x === point.x && point.x === next.x) ||
+        (prev.y === point.y && point.y === next.y)
+      );
+    });
+
+/**
+ * Routes an edge with horizontal and vertical segments only, around the given tables. Searches
+ * the grid formed by the table edges (plus a margin) for the shortest path with few bends.
+ * Returns the corner points, starting and ending at the anchors.
+ */
+export const routeOrthogonal = (
+  start: Point,
+  startSide: Side,
+  end: Point,
+  endSide: Side,
+  obstacles: Rect[]
+): Point[] => {
+  start = { x: Math.round(start.x), y: Math.round(start.y) };
+  end = { x: Math.round(end.x), y: Math.round(end.y) };
+  const out = (point: Point, side: Side): Point => ({
+    x: point.x + (side === 'right' ? STUB : -STUB),
+    y: point.y,
+  });
+  const from = out(start, startSide);
+  const to = out(end, endSide);
+
+  const minX = Math.min(from.x, to.x) - SEARCH_PADDING;
+  const maxX = Math.max(from.x, to.x) + SEARCH_PADDING;
+  const minY = Math.min(from.y, to.y) - SEARCH_PADDING;
+  const maxY = Math.max(from.y, to.y) + SEARCH_PADDING;
+  const blocks = obstacles
+    .map((r) => ({
+      left: r.x - MARGIN,
+      right: r.x + r.width + MARGIN,
+      top: r.y - MARGIN,
+      bottom: r.y + r.height + MARGIN,
+    }))
+    .filter((b) => b.right > minX && b.left < maxX && b.bottom > minY && b.top < maxY);
+
+  const xs = sorted([
+    from.x,
+    to.x,
+    (from.x + to.x) / 2,
+    ...blocks.flatMap((b) => [b.left, b.right]),
+  ]);
+  const ys = sorted([
+    from.y,
+    to.y,
+    (from.y + to.y) / 2,
+    ...blocks.flatMap((b) => [b.top, b.bottom]),
+  ]);
+  const inside = (x: number, y: number): boolean =>
+    blocks.some((b) => x > b.left && x < b.right && y > b.top && y < b.bottom);
+
+  // Dijkstra over (grid point, direction of travel), so bends can be charged for
+  const stateOf = (ix: number, iy: number, dir: number): number => (iy * xs.length + ix) * 4 + dir;
+  const cost = new Map<number, number>();
+  const previous = new Map<number, number>();
+  const heap: [number, number][] = [];
+  const push = (state: number, value: number): void => {
+    heap.push([value, state]);
+    for (let i = heap.length - 1; i > 0;) {
+      const parent = (i - 1) >> 1;
+      if (heap[parent][0] <= heap[i][0]) break;
+      [heap[parent], heap[i]] = [heap[i], heap[parent]];
+      i = parent;
+    }
+  };
+  const pop = (): [number, number] => {
+    const top = heap[0];
+    const last = heap.pop();
+    if (heap.length > 0) {
+      heap[0] = last;
+      for (let i = 0; ;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < heap.length && heap[left][0] < heap[smallest][0]) smallest = left;
+        if (right < heap.length && heap[right][0] < heap[smallest][0]) smallest = right;
+        if (smallest === i) break;
+        [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  };
+
+  const startX = xs.indexOf(Math.round(from.x));
+  const startY = ys.indexOf(Math.round(from.y));
+  const endX = xs.indexOf(Math.round(to.x));
+  const endY = ys.indexOf(Math.round(to.y));
+  // Leave the start stub and enter the end stub going the same way as them
+  const startDir = startSide === 'right' ? 0 : 1;
+  const endDir = endSide === 'right' ? 1 : 0;
+  const first = stateOf(startX, startY, startDir);
+  cost.set(first, 0);
+  push(first, 0);
+
+  let last: number | undefined;
+  while (heap.length > 0) {
+    const [value, state] = pop();
+    if (value > (cost.get(state) ?? Infinity)) continue;
+    const dir = state % 4;
+    const cell = state >> 2;
+    const ix = cell % xs.length;
+    const iy = Math.floor(cell / xs.length);
+    if (ix === endX && iy === endY) {
+      if (dir === endDir) {
+        last = state;
+        break;
+      }
+      // Turning into the end stub counts as a bend
+      const turned = stateOf(ix, iy, endDir);
+      if (value + BEND_PENALTY < (cost.get(turned) ?? Infinity)) {
+        cost.set(turned, value + BEND_PENALTY);
+        previous.set(turned, state);
+        push(turned, value + BEND_PENALTY);
+      }
+    }
+    DIRECTIONS.forEach(({ dx, dy }, nextDir) => {
+      // No U-turns
+      if (nextDir === (dir ^ 1)) return;
+      const nx = ix + dx;
+      const ny = iy + dy;
+      if (nx < 0 || ny < 0 || nx >= xs.length || ny >= ys.length) return;
+      // No block edge lies between neighbouring grid lines, so the midpoint tells if a step
+      // runs through a table, even between two points on its border
+      if (inside(xs[nx], ys[ny]) || inside((xs[ix] + xs[nx]) / 2, (ys[iy] + ys[ny]) / 2)) return;
+      const next = stateOf(nx, ny, nextDir);
+      const nextCost =
+        value +
+        Math.abs(xs[nx] - xs[ix]) +
+        Math.abs(ys[ny] - ys[iy]) +
+        (nextDir === dir ? 0 : BEND_PENALTY);
+      if (nextCost < (cost.get(next) ?? Infinity)) {
+        cost.set(next, nextCost);
+        previous.set(next, state);
+        push(next, nextCost);
+      }
+    });
+  }
+
+  if (last === undefined) {
+    // Boxed in: fall back to a plain step through the middle
+    const middle = (from.x + to.x) / 2;
+    return simplify([start, from, { x: middle, y: from.y }, { x: middle, y: to.y }, to, end]);
+  }
+
+  const corners: Point[] = [];
+  for (let state = last; state !== undefined; state = previous.get(state)) {
+    const cell = state >> 2;
+    corners.unshift({ x: xs[cell % xs.length], y: ys[Math.floor(cell / xs.length)] });
+  }
+  return simplify([start, ...corners, end]);
+};
+
+export const toSvgPath = (points: Point[]): string =>
+  points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x},${p.y}`).join(' ');
@@ -0,0 +1,55 @@
+// erNotation.ts
+import { Connection, ERNotation, Project, TableNode } from '@/types/schema';
+
+export const ER_NOTATIONS: { value: ERNotation; label: string }[] = [
+  { value: 'crowsFoot', label: "Crow's foot" },
+  { value: 'idef1x', label: 'IDEF1X' },
+  { value: 'uml', label: 'UML' },
+  { value: 'simple', label: 'Simple' },
+];
+
+export const DEFAULT_ER_NOTATION: ERNotation = 'crowsFoot';
+
+export const getProjectNotation = (project: Project | null | undefined): ERNotation =>
+  project?.settings?.notation ?? DEFAULT_ER_NOTATION;
+
+// How many rows of this end take part in the relation: 0 or 1 at least, one or many at most
+export interface RelationshipEnd {
+  optional: boolean;
+  many: boolean;
+}
+
+/**
+ * Both ends of a relation, seen from the referenced (parent) table and the referencing (child)
+ * table. A child always points at one parent, which is optional when the column accepts NULL.
+ * The schema cannot require a parent to have children, so that side is optional.
+ */
+export interface RelationshipEnds {
+  parent: RelationshipEnd;
+  child: RelationshipEnd;
+  identifying: boolean; // The foreign key is part of the child's primary key
+}
+
+export const MANY_TO_MANY_ENDS: RelationshipEnds = {
+  parent: { optional: true, many: true },
+  child: { optional: true, many: true },
+  identifying: false,
+};
+
+export const getRelationshipEnds = (
+  connection: Connection,
+  tables: TableNode[]
+): RelationshipEnds => {
+  const field = tables
+    .find((t) => t.id === connection.sourceId)
+    ?.fields.find((f) => f.id === connection.sourceFieldId);
+  return {
+    parent: { optional: !field?.notNull && !field?.primary, many: false },
+    child: { optional: true, many: connection.relationshipType === 'oneToMany' },
+    identifying: !!field?.primary,
+  };
+};
+
+// UML multiplicity, e.g. "1", "0..1" or "0..*"
+export const formatMultiplicity = (end: RelationshipEnd): string =>
+  `${end.optional ? '0' : '1'}..${end.many ? '*' : '1'}`.replace(/^1\.\.1$/, '1');
@@ -0,0 +1,216 @@
+// jsonImporter.ts
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import { Connection, Field, TableNode } from '@/types/schema';
+import { ValidationResult } from '@/utils/validation';
+import { layoutTables } from '@/utils/layout';
+
+const nullableString = z.string().nullish();
+const yesNo = z.union([z.boolean(), z.string()]).nullish();
+
+// One row per column, in the shape returned by information_schema queries (see
+// documentation/json_example.json). Only the first three keys are required.
+export const importedColumnDefSchema = z.object({
+  table_name: z.string().min(1),
+  column_name: z.string().min(1),
+  data_type: z.string().min(1),
+  column_type: nullableString, // MySQL full type, e.g. "int(11) unsigned"
+  character_maximum_length: z.number().nullish(),
+  column_default: z.union([z.string(), z.number(), z.boolean()]).nullish(),
+  is_nullable: nullableString, // "YES" or "NO"
+  referenced_table_name: nullableString,
+  referenced_column_name: nullableString,
+  // Key metadata, whichever the source query provides
+  column_key: nullableString, // MySQL: PRI / UNI / MUL
+  constraint_type: nullableString, // "PRIMARY KEY" / "UNIQUE"
+  is_primary_key: yesNo,
+  is_unique: yesNo,
+  is_identity: yesNo,
+  extra: nullableString, // MySQL: "auto_increment"
+});
+
+export type ImportedColumnDef = z.infer<typeof importedColumnDefSchema>;
+
+// MySQL returns information_schema columns upper-cased (TABLE_NAME), so keys are normalized first
+const importedColumnsSchema = z.array(
+  z.preprocess(
+    (row) =>
+      row && typeof row === 'object' && !Array.isArray(row)
+        ? Object.fromEntries(Object.entries(row).map(([key, value]) => [key.toLowerCase(), value]))
+        : row,
+    importedColumnDefSchema
+  )
+);
+
+export interface ColumnImportResult extends ValidationResult {
+  tables: TableNode[];
+  connections: Connection[];
+  warnings: string[];
+}
+
+// Defaults that generate surrogate keys, e.g. gen_random_uuid() or uuid_generate_v4()
+const GENERATED_KEY_DEFAULT = /^(gen_random_uuid|uuid_generate_v\d|uuid)\s*\(\)$/i;
+
+const isYes = (value: boolean | string | null | undefined): boolean =>
+  value === true ||
+  (typeof value === 'string' && ['YES', 'TRUE', '1'].includes(value.toUpperCase()));
+
+const hasKeyMetadata = (def: ImportedColumnDef): boolean =>
+  def.column_key != null || def.constraint_type != null || def.is_primary_key != null;
+
+const isPrimaryKey = (def: ImportedColumnDef): boolean =>
+  def.column_key?.toUpperCase() === 'PRI' ||
+  def.constraint_type?.toUpperCase() === 'PRIMARY KEY' ||
+  isYes(def.is_primary_key);
+
+const isUnique = (def: ImportedColumnDef): boolean =>
+  def.column_key?.toUpperCase() === 'UNI' ||
+  def.constraint_type?.toUpperCase() === 'UNIQUE' ||
+  isYes(def.is_unique);
+
+const isAutoIncrement = (def: ImportedColumnDef): boolean =>
+  isYes(def.is_identity) ||
+  !!def.extra?.toLowerCase().includes('auto_increment') ||
+  (typeof def.column_default === 'string' && /^nextval\s*\(/i.test(def.column_default));
+
+const columnType = (def: ImportedColumnDef): string => {
+  if (def.column_type) return def.column_type;
+  if (def.character_maximum_length && /char/i.test(def.data_type)) {
+    return `${def.data_type}(${def.character_maximum_length})`;
+  }
+  return def.data_type;
+};
+
+const formatIssues = (error: z.ZodError): string[] =>
+  error.issues.slice(0, 5).map((issue) => {
+    const [row, ...path] = issue.path;
+    const location = typeof row === 'number' ? `Row ${row + 1}` : 'Input';
+    return `${location}${path.length ? ` (${path.join('.')})` : ''}: ${issue.message}`;
+  });
+
+/**
+ * Converts information_schema column rows into tables and connections, laid out with Dagre.
+ *
+ * Primary keys come from key metadata (column_key, constraint_type, is_primary_key). Tables
+ * without any key metadata fall back to the column other tables reference, or else to a single
+ * auto-increment / generated-UUID column.
+ */
+export const importColumnDefinitions = (data: unknown): ColumnImportResult => {
+  const parsed = importedColumnsSchema.safeParse(data);
+  if (!parsed.success) {
+    return {
+      valid: false,
+      errors: formatIssues(parsed.error),
+      tables: [],
+      connections: [],
+      warnings: [],
+    };
+  }
+
+  const columns = parsed.data;
+  const warnings: string[] = [];
+  const tablesMap = new Map<string, TableNode>();
+  const fieldsByDef = new Map<ImportedColumnDef, Field>();
+
+  columns.forEach((def) => {
+    let table = tablesMap.get(def.table_name);
+    if (!table) {
+      table = { id: uuidv4(), name: def.table_name, fields: [], position: { x: 0, y: 0 } };
+      tablesMap.set(def.table_name, table);
+    }
+
+    // A column that takes part in several constraints is listed once per constraint
+    const existing = table.fields.find((f) => f.name === def.column_name);
+    if (existing) {
+      existing.primary = existing.primary || isPrimaryKey(def);
+      existing.unique = existing.unique || isUnique(def);
+      fieldsByDef.set(def, existing);
+      return;
+    }
+
+    const autoIncrement = isAutoIncrement(def);
+    const field: Field = {
+      id: uuidv4(),
+      name: def.column_name,
+      type: columnType(def),
+      notNull: def.is_nullable?.toUpperCase() === 'NO',
+      primary: isPrimaryKey(def),
+      unique: isUnique(def),
+      defaultValue: autoIncrement ? undefined : (def.column_default ?? undefined),
+      autoIncrement: autoIncrement || undefined,
+    };
+    table.fields.push(field);
+    fieldsByDef.set(def, field);
+  });
+
+  // Tables without key metadata: use the column that foreign keys point at as the primary key
+  tablesMap.forEach((table, tableName) => {
+    const tableDefs = columns.filter((def) => def.table_name === tableName);
+    if (tableDefs.some(hasKeyMetadata)) return;
+
+    const referenced = new Set(
+      columns
+        .filter((def) => def.referenced_table_name === tableName && def.referenced_column_name)
+        .map((def) => def.referenced_column_name as string)
+    );
+    let candidates = table.fields.filter((f) => referenced.has(f.name));
+    if (candidates.length === 0) {
+      candidates = table.fields.filter(
+        (f) =>
+          f.autoIncrement ||
+          (typeof f.defaultValue === 'string' && GENERATED_KEY_DEFAULT.test(f.defaultValue))
+      );
+    }
+
+    if (candidates.length === 1) {
+      candidates[0].primary = true;
+      candidates[0].notNull = true;
+    } else {
+      warnings.push(`No primary key could be determined for "${tableName}"`);
+    }
+  });
+
+  const connections: Connection[] = [];
+  columns.forEach((def) => {
+    if (!def.referenced_table_name || !def.referenced_column_name) return;
+
+    const sourceTable = tablesMap.get(def.table_name);
+    const targetTable = tablesMap.get(def.referenced_table_name);
+    const sourceField = fieldsByDef.get(def);
+    const targetField = targetTable?.fields.find((f) => f.name === def.referenced_column_name);
+
+    if (!sourceTable || !sourceField || !targetTable || !targetField) {
+      warnings.push(
+        `Foreign key ${def.table_name}.${def.column_name} → ${def.referenced_table_name}.${def.referenced_column_name} could not be resolved`
+      );
+      return;
+    }
+
+    if (
+      connections.some((c) => c.sourceId === sourceTable.id && c.sourceFieldId === sourceField.id)
+    ) {
+      return;
+    }
+
+    sourceField.foreignKey = { tableId: targetTable.id, fieldId: targetField.id };
+    const isOneToOne =
+      sourceField.unique ||
+      (sourceField.primary && sourceTable.fields.filter((f) => f.primary).length === 1);
+    connections.push({
+      id: uuidv4(),
+      sourceId: sourceTable.id,
+      targetId: targetTable.id,
+      sourceFieldId: sourceField.id,
+      targetFieldId: targetField.id,
+      relationshipType: isOneToOne ? 'oneToOne' : 'oneToMany',
+    });
+  });
+
+  return {
+    valid: true,
+    errors: [],
+    tables: layoutTables(Array.from(tablesMap.values()), connections),
+    connections,
+    warnings,
+  };
+};
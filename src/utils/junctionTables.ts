@@ -0,0 +1,192 @@
+// junctionTables.ts
+import { v4 as uuidv4 } from 'uuid';
+import { Field, JunctionInfo, Project, TableNode } from '@/types/schema';
+import { parseTypeString } from '@/utils/sqlDialects';
+import { ValidationResult } from '@/utils/validation';
+
+// A serial key is referenced by a plain integer of the same width
+const SERIAL_REFERENCE_TYPES: Record<string, string> = {
+  SMALLSERIAL: 'SMALLINT',
+  SERIAL: 'INTEGER',
+  BIGSERIAL: 'BIGINT',
+};
+
+export const getReferencingType = (type: string): string =>
+  SERIAL_REFERENCE_TYPES[parseTypeString(type).name] ?? type;
+
+const uniqueName = (name: string, taken: string[]): string => {
+  let candidate = name;
+  for (let n = 2; taken.some((t) => t.toLowerCase() === candidate.toLowerCase()); n++) {
+    candidate = `${name}_${n}`;
+  }
+  return candidate;
+};
+
+export const validateManyToMany = (source?: TableNode, target?: TableNode): ValidationResult => {
+  const errors: string[] = [];
+  if (!source || !target) {
+    errors.push('Table not found');
+  } else {
+    new Set([source, target]).forEach((table) => {
+      if (!table.fields.some((f) => f.primary)) {
+        errors.push(`Table '${table.name}' needs a primary key for a many-to-many relation`);
+      }
+    });
+  }
+  return { valid: errors.length === 0, errors };
+};
+
+// Junction columns for one side: one per primary key field, in key order. Returns their ids.
+const syncKeyColumns = (table: TableNode, side: TableNode, fieldIds: string[]): string[] => {
+  const ids = side.fields
+    .filter((f) => f.primary)
+    .map((key, position) => {
+      const column: Omit<Field, 'id' | 'name'> = {
+        type: getReferencingType(key.type),
+        notNull: true,
+        primary: true,
+        unique: false,
+        autoIncrement: false,
+        foreignKey: { tableId: side.id, fieldId: key.id },
+      };
+      const existing = table.fields.find((f) => f.id === fieldIds[position]);
+      if (existing) {
+        // Only touch what changed, so a sync without changes leaves the draft untouched
+        const { foreignKey, ...flags } = column;
+        Object.entries(flags).forEach(([key, value]) => {
+          if (existing[key] !== value) existing[key] = value;
+        });
+        if (
+          existing.foreignKey?.tableId !== foreignKey.tableId ||
+          existing.foreignKey?.fieldId !== foreignKey.fieldId
+        ) {
+          existing.foreignKey = foreignKey;
+        }
+        return existing.id;
+      }
+      const name = uniqueName(
+        `${side.name}_${key.name}`,
+        table.fields.map((f) => f.name)
+      );
+      const field: Field = { id: uuidv4(), name, ...column };
+      table.fields.push(field);
+      return field.id;
+    });
+
+  const dropped = fieldIds.filter((id) => !ids.includes(id));
+  if (dropped.length > 0) {
+    table.fields = table.fields.filter((f) => !dropped.includes(f.id));
+  }
+  return ids;
+};
+
+/**
+ * Rebuilds the key columns and connections of every junction table from the current primary keys
+ * of its two sides. Columns keep their id and name, so renames and extra columns survive.
+ * Mutates `project`, meant to run on an Immer draft after any table change.
+ */
+export const syncJunctionTables = (project: Pick<Project, 'tables' | 'connections'>): void => {
+  project.tables.forEach((table) => {
+    const { junction } = table;
+    if (!junction) return;
+
+    const source = project.tables.find((t) => t.id === junction.sourceTableId);
+    const target = project.tables.find((t) => t.id === junction.targetTableId);
+    if (!source || !target) {
+      // Without both sides it is just a table
+      delete table.junction;
+      return;
+    }
+
+    const previousIds = [...junction.sourceFieldIds, ...junction.targetFieldIds];
+    const sourceFieldIds = syncKeyColumns(table, source, junction.sourceFieldIds);
+    const targetFieldIds = syncKeyColumns(table, target, junction.targetFieldIds);
+    if (sourceFieldIds.join() !== junction.sourceFieldIds.join()) {
+      junction.sourceFieldIds = sourceFieldIds;
+    }
+    if (targetFieldIds.join() !== junction.targetFieldIds.join()) {
+      junction.targetFieldIds = targetFieldIds;
+    }
+    const keyIds = [...sourceFieldIds, ...targetFieldIds];
+
+    // Existing connections keep their id and actions
+    keyIds.forEach((fieldId) => {
+      const field = table.fields.find((f) => f.id === fieldId);
+      if (!field?.foreignKey) return;
+      const { tableId, fieldId: targetFieldId } = field.foreignKey;
+      const connection = project.connections.find(
+        (c) => c.sourceId === table.id && c.sourceFieldId === fieldId
+      );
+      if (connection) {
+        if (connection.targetId !== tableId) connection.targetId = tableId;
+        if (connection.targetFieldId !== targetFieldId) connection.targetFieldId = targetFieldId;
+      } else {
+        project.connections.push({
+          id: uuidv4(),
+          sourceId: table.id,
+          targetId: tableId,
+          sourceFieldId: fieldId,
+          targetFieldId,
+          relationshipType: 'oneToMany',
+          onDelete: 'CASCADE',
+        });
+      }
+    });
+
+    const dropped = previousIds.filter((id) => !keyIds.includes(id));
+    if (dropped.length > 0) {
+      project.connections = project.connections.filter(
+        (c) => !(c.sourceId === table.id && dropped.includes(c.sourceFieldId))
+      );
+    }
+  });
+};
+
+/**
+ * Adds a collapsed link table between the two tables, with a foreign key to the primary key of
+ * each and a composite primary key over both.
+ */
+export const addJunctionTable = (
+  project: Project,
+  sourceId: string,
+  targetId: string,
+  id: string = uuidv4()
+): void => {
+  const source = project.tables.find((t) => t.id === sourceId);
+  const target = project.tables.find((t) => t.id === targetId);
+  if (!source || !target) return;
+
+  project.tables.push({
+    id,
+    name: uniqueName(
+      `${source.name}_${target.name}`,
+      project.tables.map((t) => t.name)
+    ),
+    fields: [],
+    position: {
+      x: (source.position.x + target.position.x) / 2,
+      y: Math.max(source.position.y, target.position.y) + 200,
+    },
+    junction: {
+      sourceTableId: sourceId,
+      targetTableId: targetId,
+      sourceFieldIds: [],
+      targetFieldIds: [],
+      collapsed: true,
+    },
+  });
+  syncJunctionTables(project);
+};
+
+// Rewrites table and field ids after a project was copied with new ids
+export const remapJunction = (
+  junction: JunctionInfo,
+  tableIds: Map<string, string>,
+  fieldIds: Map<string, string>
+): JunctionInfo => ({
+  ...junction,
+  sourceTableId: tableIds.get(junction.sourceTableId) ?? junction.sourceTableId,
+  targetTableId: tableIds.get(junction.targetTableId) ?? junction.targetTableId,
+  sourceFieldIds: junction.sourceFieldIds.map((id) => fieldIds.get(id) ?? id),
+  targetFieldIds: junction.targetFieldIds.map((id) => fieldIds.get(id) ?? id),
+});
@@ -0,0 +1,66 @@
+// layout.ts
+import * as dagre from 'dagre';
+import { Connection, Position, TableNode } from '@/types/schema';
+
+export const DEFAULT_NODE_WIDTH = 250;
+const FIELD_ROW_HEIGHT = 36;
+const HEADER_HEIGHT = 48;
+
+interface LayoutOptions {
+  // Measured node sizes (from React Flow), keyed by table id
+  sizes?: Record<string, { width?: number | null; height?: number | null }>;
+}
+
+// Rough height of a rendered TableNodeComponent, used when no measurement is available
+const estimateTableHeight = (table: TableNode): number =>
+  HEADER_HEIGHT + Math.max(table.fields.length, 1) * FIELD_ROW_HEIGHT;
+
+/**
+ * Computes top-left positions for the given tables with Dagre, ranking referenced (PK) tables
+ * above the tables that reference them.
+ */
+export const calculateTableLayout = (
+  tables: TableNode[],
+  connections: Connection[],
+  options: LayoutOptions = {}
+): Record<string, Position> => {
+  const dagreGraph = new dagre.graphlib.Graph();
+  dagreGraph.setDefaultEdgeLabel(() => ({}));
+  dagreGraph.setGraph({ rankdir: 'TB', nodesep: 100, ranksep: 150 });
+
+  tables.forEach((table) => {
+    const size = options.sizes?.[table.id];
+    dagreGraph.setNode(table.id, {
+      label: table.name,
+      width: size?.width ?? DEFAULT_NODE_WIDTH,
+      height: size?.height ?? estimateTableHeight(table),
+    });
+  });
+
+  // Connections are stored FK -> PK (sourceId -> targetId), Dagre needs PK -> FK for TB layout
+  connections.forEach((conn) => {
+    if (dagreGraph.hasNode(conn.targetId) && dagreGraph.hasNode(conn.sourceId)) {
+      dagreGraph.setEdge(conn.targetId, conn.sourceId);
+    }
+  });
+
+  dagre.layout(dagreGraph);
+
+  const positions: Record<string, Position> = {};
+  dagreGraph.nodes().forEach((nodeId) => {
+    const node = dagreGraph.node(nodeId);
+    if (node) {
+      // Dagre calculates center position, adjust for top-left corner used by React Flow
+      positions[nodeId] = { x: node.x - node.width / 2, y: node.y - node.height / 2 };
+    }
+  });
+  return positions;
+};
+
+/**
+ * Returns the tables with their positions replaced by a Dagre layout.
+ */
+export const layoutTables = (tables: TableNode[], connections: Connection[]): TableNode[] => {
+  const positions = calculateTableLayout(tables, connections);
+  return tables.map((table) => ({ ...table, position: positions[table.id] ?? table.position }));
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_NAMING_SETTINGS,
+  planConventionRenames,
+  pluralize,
+  singularize,
+} from '@/utils/namingConventions';
+import { parseSQLSchema } from '@/utils/sqlParser';
+
+const renamesFor = (sql: string, settings = DEFAULT_NAMING_SETTINGS): string[] =>
+  planConventionRenames(parseSQLSchema(sql), settings).map(
+    (rename) => `${rename.before} → ${rename.after}`
+  );
+
+describe('pluralize and singularize', () => {
+  it.each([
+    ['user', 'users'],
+    ['day', 'days'],
+    ['category', 'categories'],
+    ['address', 'addresses'],
+    ['box', 'boxes'],
+    ['status', 'statuses'],
+    ['case', 'cases'],
+    ['response', 'responses'],
+    ['database', 'databases'],
+    ['analysis', 'analyses'],
+    ['thesis', 'theses'],
+    ['crisis', 'crises'],
+    ['diagnosis', 'diagnoses'],
+    ['person', 'people'],
+  ])('%s ⇄ %s', (singular, plural) => {
+    expect(pluralize(singular)).toBe(plural);
+    expect(pluralize(plural)).toBe(plural);
+    expect(singularize(plural)).toBe(singular);
+    expect(singularize(singular)).toBe(singular);
+  });
+});
+
+describe('planConventionRenames', () => {
+  it('renames tables, keys and columns to the settings', () => {
+    expect(
+      renamesFor(`
+        CREATE TABLE Person (PersonID INT PRIMARY KEY, createdAt TIMESTAMP);
+        CREATE TABLE post (id INT PRIMARY KEY, owner INT REFERENCES Person (PersonID));
+      `)
+    ).toEqual([
+      'Person → people',
+      'post → posts',
+      'Person.PersonID → people.id',
+      'Person.createdAt → people.created_at',
+      'post.owner → posts.person_id',
+    ]);
+  });
+
+  it('keeps the role of a foreign key that ends in the referenced column', () => {
+    expect(
+      renamesFor(`
+        CREATE TABLE users (id INT PRIMARY KEY);
+        CREATE TABLE posts (id INT PRIMARY KEY, authorId INT REFERENCES users (id));
+        CREATE TABLE comments (id INT PRIMARY KEY, author_id INT REFERENCES users (id));
+      `)
+    ).toEqual(['posts.authorId → posts.author_id']);
+  });
+
+  it('only changes the case of self-references and repeated keys to one table', () => {
+    expect(
+      renamesFor(`
+        CREATE TABLE users (id INT PRIMARY KEY, Manager INT REFERENCES users (id));
+        CREATE TABLE messages (
+          id INT PRIMARY KEY,
+          Sender INT REFERENCES users (id),
+          Recipient INT REFERENCES users (id)
+        );
+      `)
+    ).toEqual([
+      'users.Manager → users.manager',
+      'messages.Sender → messages.sender',
+      'messages.Recipient → messages.recipient',
+    ]);
+  });
+
+  it('leaves a column alone when the new name is taken in its table', () => {
+    expect(
+      renamesFor(`
+        CREATE TABLE users (id INT PRIMARY KEY);
+        CREATE TABLE posts (id INT PRIMARY KEY, user_id TEXT, owner INT REFERENCES users (id));
+      `)
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,240 @@
+// namingConventions.ts
+import { Field, NamingConvention, NamingSettings, Project, TableNode } from '@/types/schema';
+
+export const NAMING_CONVENTIONS: { value: NamingConvention; label: string }[] = [
+  { value: 'snake_case', label: 'snake_case' },
+  { value: 'camelCase', label: 'camelCase' },
+  { value: 'PascalCase', label: 'PascalCase' },
+];
+
+export const TABLE_NAME_NUMBERS: { value: NamingSettings['tableNames']; label: string }[] = [
+  { value: 'any', label: 'Singular or plural' },
+  { value: 'singular', label: 'Singular (user)' },
+  { value: 'plural', label: 'Plural (users)' },
+];
+
+export const DEFAULT_NAMING_SETTINGS: NamingSettings = {
+  case: 'snake_case',
+  tableNames: 'plural',
+  foreignKeyPattern: '{table}_{column}',
+  primaryKeyName: 'id',
+};
+
+const PATTERNS: Record<NamingConvention, RegExp> = {
+  snake_case: /^[a-z][a-z0-9]*(_[a-z0-9]+)*$/,
+  camelCase: /^[a-z][a-zA-Z0-9]*$/,
+  PascalCase: /^[A-Z][a-zA-Z0-9]*$/,
+};
+
+export const matchesConvention = (name: string, convention: NamingConvention): boolean =>
+  PATTERNS[convention].test(name);
+
+/**
+ * The convention most of the names follow, undefined when there are no names. A one-word
+ * lowercase name fits both snake_case and camelCase, so ties go to the earlier convention.
+ */
+export const detectConvention = (names: string[]): NamingConvention | undefined => {
+  if (names.length === 0) return undefined;
+  const counts = NAMING_CONVENTIONS.map(({ value }) => ({
+    value,
+    count: names.filter((name) => matchesConvention(name, value)).length,
+  }));
+  return counts.reduce((best, entry) => (entry.count > best.count ? entry : best)).value;
+};
+
+// Lowercase words of a name in any convention: "OrderItem", "order_item" and "orderItem" alike
+export const splitWords = (name: string): string[] =>
+  name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word.toLowerCase());
+
+const capitalize = (word: string): string => word.charAt(0).toUpperCase() + word.slice(1);
+
+export const formatName = (words: string[], convention: NamingConvention): string => {
+  switch (convention) {
+    case 'snake_case':
+      return words.join('_');
+    case 'camelCase':
+      return words.map((word, i) => (i === 0 ? word : capitalize(word))).join('');
+    case 'PascalCase':
+      return words.map(capitalize).join('');
+  }
+};
+
+const IRREGULAR_PLURALS: Record<string, string> = {
+  person: 'people',
+  child: 'children',
+  man: 'men',
+  woman: 'women',
+  mouse: 'mice',
+  foot: 'feet',
+  tooth: 'teeth',
+  goose: 'geese',
+};
+const IRREGULAR_SINGULARS = Object.fromEntries(
+  Object.entries(IRREGULAR_PLURALS).map(([singular, plural]) => [plural, singular])
+);
+
+// English plurals by the common rules; words ending in -us, -is or -ss are taken as singular
+const isPlural = (word: string): boolean =>
+  word in IRREGULAR_SINGULARS || (/s$/.test(word) && !/(us|is|ss)$/.test(word));
+
+export const pluralize = (word: string): string => {
+  if (isPlural(word)) return word;
+  if (IRREGULAR_PLURALS[word]) return IRREGULAR_PLURALS[word];
+  if (/[^aeiou]y$/.test(word)) return word.replace(/y$/, 'ies');
+  if (/is$/.test(word)) return word.replace(/is$/, 'es');
+  if (/(s|x|z|ch|sh)$/.test(word)) return `${word}es`;
+  return `${word}s`;
+};
+
+export const singularize = (word: string): string => {
+  if (!isPlural(word)) return word;
+  if (IRREGULAR_SINGULARS[word]) return IRREGULAR_SINGULARS[word];
+  if (/[^aeiou]ies$/.test(word)) return word.replace(/ies$/, 'y');
+  // Undoes -is to -es (analyses, theses, crises), leaving cases and responses alone
+  if (/(ys|[^aeiou]es|cris|gnos)es$/.test(word)) return word.replace(/es$/, 'is');
+  if (/(ss|us|x|z|ch|sh)es$/.test(word)) return word.replace(/es$/, '');
+  return word.replace(/s$/, '');
+};
+
+// Changes the number of the last word only: order_items, not orders_items
+const withNumber = (words: string[], number: NamingSettings['tableNames']): string[] =>
+  number === 'any' || words.length === 0
+    ? words
+    : [
+        ...words.slice(0, -1),
+        (number === 'plural' ? pluralize : singularize)(words[words.length - 1]),
+      ];
+
+const fillPattern = (pattern: string, values: { table: string; column?: string }): string[] =>
+  splitWords(
+    pattern.replace(/\{table\}/g, values.table).replace(/\{column\}/g, values.column ?? '')
+  );
+
+export interface NamingRename {
+  id: string;
+  tableId: string;
+  fieldId?: string; // Unset when the table itself is renamed
+  before: string; // Qualified for columns, e.g. users.userId
+  after: string;
+  name: string; // The new name alone
+}
+
+/**
+ * Works out the names the settings ask for. Foreign key columns follow the pattern, except for
+ * self-references, several keys to the same table and names that already end in the referenced
+ * column, which usually carry a role (parent_id, author_id); those only get the case changed. A
+ * name already taken in its table or project is left alone.
+ */
+export const planConventionRenames = (
+  project: Pick<Project, 'tables'>,
+  settings: NamingSettings
+): NamingRename[] => {
+  const { tables } = project;
+  const renames: NamingRename[] = [];
+  const format = (words: string[]): string => formatName(words, settings.case);
+
+  const tableNames = new Map(tables.map((t) => [t.id, t.name]));
+  tables.forEach((table) => {
+    const name = format(withNumber(splitWords(table.name), settings.tableNames));
+    const taken = tables.some(
+      (t) => t.id !== table.id && tableNames.get(t.id).toLowerCase() === name.toLowerCase()
+    );
+    if (!name || name === table.name || taken) return;
+    tableNames.set(table.id, name);
+    renames.push({ id: table.id, tableId: table.id, before: table.name, after: name, name });
+  });
+  const singularTable = (id: string): string =>
+    withNumber(splitWords(tableNames.get(id) ?? ''), 'singular').join('_');
+
+  // Referenced columns first, so foreign keys are built from their new names
+  const fieldNames = new Map<string, string>();
+  const desiredName = (table: TableNode, field: Field): string => {
+    const primaryKeys = table.fields.filter((f) => f.primary);
+    const { foreignKey } = field;
+    const target = foreignKey && tables.find((t) => t.id === foreignKey.tableId);
+    const targetField = target?.fields.find((f) => f.id === foreignKey.fieldId);
+    const sameTarget = table.fields.filter((f) => f.foreignKey?.tableId === foreignKey?.tableId);
+    // author_id → users.id: the words before the referenced column name a role
+    const words = splitWords(field.name);
+    const endsIn = (column: string[]): boolean =>
+      column.length > 0 &&
+      words.length > column.length &&
+      words.slice(-column.length).join(' ') === column.join(' ');
+    const hasRole =
+      !!targetField &&
+      [targetField.name, fieldNames.get(targetField.id)].some(
+        (name) => name && endsIn(splitWords(name))
+      );
+    if (targetField && target.id !== table.id && sameTarget.length === 1 && !hasRole) {
+      return format(
+        fillPattern(settings.foreignKeyPattern, {
+          table: singularTable(target.id),
+          column: fieldNames.get(targetField.id) ?? targetField.name,
+        })
+      );
+    }
+    if (!foreignKey && field.primary && primaryKeys.length === 1) {
+      return format(fillPattern(settings.primaryKeyName, { table: singularTable(table.id) }));
+    }
+    return format(splitWords(field.name));
+  };
+
+  const isOwnKey = (field: Field): boolean => field.primary && !field.foreignKey;
+  const order = [
+    ...tables.flatMap((table) => table.fields.filter(isOwnKey).map((field) => ({ table, field }))),
+    ...tables.flatMap((table) =>
+      table.fields.filter((f) => !isOwnKey(f)).map((field) => ({ table, field }))
+    ),
+  ];
+
+  order.forEach(({ table, field }) => {
+    const nameOf = (f: { id: string; name: string }): string => fieldNames.get(f.id) ?? f.name;
+    const isFree = (name: string): boolean =>
+      !!name &&
+      !table.fields.some(
+        (f) => f.id !== field.id && nameOf(f).toLowerCase() === name.toLowerCase()
+      );
+    const name = [desiredName(table, field), format(splitWords(field.name))].find(isFree);
+    if (!name || name === field.name) return;
+    fieldNames.set(field.id, name);
+    renames.push({
+      id: `${table.id}:${field.id}`,
+      tableId: table.id,
+      fieldId: field.id,
+      before: `${table.name}.${field.name}`,
+      after: `${tableNames.get(table.id)}.${name}`,
+      name,
+    });
+  });
+
+  return renames;
+};
+
+/**
+ * Saves the settings and applies the given renames to a draft. Relations point at ids, so
+ * connections and foreign keys follow without changes.
+ */
+export const applyNamingConventions = (
+  project: Project,
+  settings: NamingSettings,
+  renames: NamingRename[]
+): void => {
+  if (!project.settings) project.settings = {};
+  project.settings.naming = settings;
+  renames.forEach((rename) => {
+    const table = project.tables.find((t) => t.id === rename.tableId);
+    if (!table) return;
+    if (!rename.fieldId) {
+      table.name = rename.name;
+      return;
+    }
+    const field = table.fields.find((f) => f.id === rename.fieldId);
+    if (field) field.name = rename.name;
+  });
+  project.updatedAt = new Date().toISOString();
+};
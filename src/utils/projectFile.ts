@@ -0,0 +1,90 @@
+// projectFile.ts
+import { v4 as uuidv4 } from 'uuid';
+import { Project } from '@/types/schema';
+import { loadProject } from '@/utils/projectFormat';
+import { remapJunction } from '@/utils/junctionTables';
+import { remapConstraintFields } from '@/utils/tableConstraints';
+import { remapIndexFields } from '@/utils/tableIndexes';
+
+export const PROJECT_FILE_EXTENSION = '.dbcanvas';
+const PROJECT_FILE_KIND = 'dbcanvas-project';
+
+interface ProjectFile {
+  kind: typeof PROJECT_FILE_KIND;
+  exportedAt: string;
+  project: Project;
+}
+
+/**
+ * Deep-copies a project with fresh IDs for the project, its tables, fields and connections.
+ * References between them (connection endpoints, field foreign keys, table constraints, indexes
+ * and junction tables) are remapped to the new IDs.
+ */
+export const cloneProject = (
+  project: Project,
+  overrides: Partial<Pick<Project, 'name'>> = {}
+): Project => {
+  const copy = structuredClone(project);
+  const tableIds = new Map(copy.tables.map((table) => [table.id, uuidv4()]));
+  const remapTable = (id: string): string => tableIds.get(id) ?? id;
+  // Foreign keys and connections point at fields of other tables, so all ids are mapped first
+  const fieldIds = new Map(
+    copy.tables.flatMap((table) => table.fields.map((field) => [field.id, uuidv4()] as const))
+  );
+  const remapField = (id: string): string => fieldIds.get(id) ?? id;
+
+  copy.tables.forEach((table) => {
+    table.id = remapTable(table.id);
+    table.fields.forEach((field) => {
+      field.id = remapField(field.id);
+      if (field.foreignKey) {
+        field.foreignKey.tableId = remapTable(field.foreignKey.tableId);
+        field.foreignKey.fieldId = remapField(field.foreignKey.fieldId);
+      }
+    });
+    if (table.constraints) table.constraints = remapConstraintFields(table.constraints, fieldIds);
+    if (table.indexes) table.indexes = remapIndexFields(table.indexes, fieldIds);
+    if (table.junction) table.junction = remapJunction(table.junction, tableIds, fieldIds);
+  });
+  copy.connections.forEach((connection) => {
+    connection.id = uuidv4();
+    connection.sourceId = remapTable(connection.sourceId);
+    connection.targetId = remapTable(connection.targetId);
+    connection.sourceFieldId = remapField(connection.sourceFieldId);
+    connection.targetFieldId = remapField(connection.targetFieldId);
+  });
+  const now = new Date().toISOString();
+  return { ...copy, ...overrides, id: uuidv4(), createdAt: now, updatedAt: now };
+};
+
+export const serializeProjectFile = (project: Project): string => {
+  const file: ProjectFile = {
+    kind: PROJECT_FILE_KIND,
+    exportedAt: new Date().toISOString(),
+    project,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Reads a .dbcanvas file. The project goes through the same validation and migrations as saved
+ * projects, so files exported by older versions still import. Throws if the file is unusable.
+ */
+export const parseProjectFile = (content: string): Project => {
+  let file: Partial<ProjectFile>;
+  try {
+    file = JSON.parse(content);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (!file || file.kind !== PROJECT_FILE_KIND) {
+    throw new Error('The file is not a DB Canvas project');
+  }
+
+  const result = loadProject(file.project);
+  if (result.status === 'quarantined') {
+    throw new Error(result.quarantined.error);
+  }
+  return result.project;
+};
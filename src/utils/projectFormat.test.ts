@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import legacyProject from '../test/legacy-v1-project.json?raw';
+import { CURRENT_FORMAT_VERSION, loadProject } from '@/utils/projectFormat';
+
+describe('loadProject', () => {
+  it('migrates a version 1 project whose fields have a null foreign key', () => {
+    const result = loadProject(JSON.parse(legacyProject));
+    if (result.status !== 'loaded') throw new Error(result.quarantined.error);
+
+    const { project } = result;
+    expect(result.migrated).toBe(true);
+    expect(project.formatVersion).toBe(CURRENT_FORMAT_VERSION);
+
+    const [users, posts] = project.tables;
+    users.fields.forEach((field) => expect(field).not.toHaveProperty('foreignKey'));
+    expect(posts.fields[1].foreignKey).toEqual({ tableId: 't-users', fieldId: 'f-users-id' });
+    expect(project.connections).toEqual([
+      expect.objectContaining({
+        sourceId: 't-posts',
+        sourceFieldId: 'f-posts-user',
+        targetId: 't-users',
+        targetFieldId: 'f-users-id',
+      }),
+    ]);
+  });
+
+  it('quarantines data that is not a project', () => {
+    const result = loadProject({ id: 'broken', name: 'Broken', tables: 'nope' });
+    expect(result.status).toBe('quarantined');
+  });
+});
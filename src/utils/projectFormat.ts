@@ -0,0 +1,396 @@
+// projectFormat.ts
+import { z } from 'zod';
+import { Project } from '@/types/schema';
+import { syncRelationships } from '@/utils/relationships';
+
+/**
+ * Version of the saved project format. Bump it whenever the shape of `Project` changes in a way
+ * older data does not satisfy, add the new schema to `PROJECT_SCHEMAS` and a migration from the
+ * previous version to `MIGRATIONS`.
+ */
+export const CURRENT_FORMAT_VERSION = 3;
+
+const dateString = z.string().refine((value) => !Number.isNaN(Date.parse(value)), {
+  message: 'Invalid date',
+});
+const positionSchema = z.object({ x: z.number(), y: z.number() });
+const defaultValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+// Columns were referenced by name until version 3
+const namedForeignKeySchema = z.object({ tableId: z.string(), fieldName: z.string() });
+const foreignKeySchema = z.object({ tableId: z.string(), fieldId: z.string() });
+
+// Version 1: projects saved before formatVersion existed. Only what the UI cannot do without is
+// required, the migration fills in the rest.
+const projectSchemaV1 = z
+  .object({
+    id: z.string().min(1),
+    name: z.string(),
+    tables: z
+      .array(
+        z
+          .object({
+            id: z.string().min(1),
+            name: z.string(),
+            fields: z.array(
+              z
+                .object({
+                  id: z.string().min(1),
+                  name: z.string(),
+                  type: z.string(),
+                  notNull: z.boolean().optional(),
+                  primary: z.boolean().optional(),
+                  unique: z.boolean().optional(),
+                  defaultValue: defaultValueSchema.optional(),
+                  // The first JSON importer wrote null for columns without one
+                  foreignKey: namedForeignKeySchema.nullish(),
+                })
+                .passthrough()
+            ),
+            position: positionSchema.optional(),
+            color: z.string().optional(),
+          })
+          .passthrough()
+      )
+      .optional(),
+    connections: z
+      .array(
+        z
+          .object({
+            id: z.string().min(1),
+            sourceId: z.string(),
+            targetId: z.string(),
+            sourceField: z.string(),
+            targetField: z.string(),
+            relationshipType: z.string().optional(),
+          })
+          .passthrough()
+      )
+      .optional(),
+    createdAt: dateString.optional(),
+    updatedAt: dateString.optional(),
+  })
+  .passthrough();
+
+type ProjectV1 = z.infer<typeof projectSchemaV1>;
+
+// Version 3: the current `Project` shape
+const fieldSchema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string(),
+    type: z.string(),
+    notNull: z.boolean(),
+    primary: z.boolean(),
+    unique: z.boolean(),
+    defaultValue: defaultValueSchema.optional(),
+    autoIncrement: z.boolean().optional(),
+    foreignKey: foreignKeySchema.optional(),
+    check: z.string().optional(),
+    comment: z.string().optional(),
+  })
+  .passthrough();
+
+const tableSchema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string(),
+    fields: z.array(fieldSchema),
+    position: positionSchema,
+    color: z.string().optional(),
+    constraints: z
+      .array(
+        z.discriminatedUnion('type', [
+          z
+            .object({
+              id: z.string().min(1),
+              type: z.literal('unique'),
+              name: z.string().optional(),
+              fieldIds: z.array(z.string()),
+            })
+            .passthrough(),
+          z
+            .object({
+              id: z.string().min(1),
+              type: z.literal('check'),
+              name: z.string().optional(),
+              expression: z.string(),
+            })
+            .passthrough(),
+        ])
+      )
+      .optional(),
+    indexes: z
+      .array(
+        z
+          .object({
+            id: z.string().min(1),
+            name: z.string().optional(),
+            columns: z.array(
+              z.object({
+                fieldId: z.string().optional(),
+                expression: z.string().optional(),
+                order: z.enum(['asc', 'desc']),
+              })
+            ),
+            unique: z.boolean(),
+            method: z.enum(['btree', 'hash', 'gin']).optional(),
+            where: z.string().optional(),
+          })
+          .passthrough()
+      )
+      .optional(),
+    comment: z.string().optional(),
+    junction: z
+      .object({
+        sourceTableId: z.string(),
+        targetTableId: z.string(),
+        sourceFieldIds: z.array(z.string()),
+        targetFieldIds: z.array(z.string()),
+        collapsed: z.boolean(),
+      })
+      .optional(),
+  })
+  .passthrough();
+
+const referentialActionSchema = z.enum([
+  'CASCADE',
+  'SET NULL',
+  'SET DEFAULT',
+  'RESTRICT',
+  'NO ACTION',
+]);
+
+const connectionSchema = z
+  .object({
+    id: z.string().min(1),
+    sourceId: z.string(),
+    targetId: z.string(),
+    sourceFieldId: z.string(),
+    targetFieldId: z.string(),
+    relationshipType: z.enum(['oneToOne', 'oneToMany']),
+    name: z.string().optional(),
+    onDelete: referentialActionSchema.optional(),
+    onUpdate: referentialActionSchema.optional(),
+  })
+  .passthrough();
+
+const userTypeSchema = z.discriminatedUnion('kind', [
+  z
+    .object({
+      id: z.string().min(1),
+      kind: z.literal('enum'),
+      name: z.string(),
+      values: z.array(z.string()),
+    })
+    .passthrough(),
+  z
+    .object({
+      id: z.string().min(1),
+      kind: z.literal('domain'),
+      name: z.string(),
+      baseType: z.string(),
+      notNull: z.boolean(),
+      defaultValue: z.string().optional(),
+      check: z.string().optional(),
+    })
+    .passthrough(),
+]);
+
+const projectSchemaV3 = z
+  .object({
+    formatVersion: z.literal(3),
+    id: z.string().min(1),
+    name: z.string(),
+    tables: z.array(tableSchema),
+    connections: z.array(connectionSchema),
+    createdAt: dateString,
+    updatedAt: dateString,
+    description: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+    settings: z
+      .object({
+        sqlExport: z
+          .object({
+            dialect: z.enum(['mysql', 'postgresql', 'sqlite']),
+            includeDropStatements: z.boolean(),
+            includeTimestamps: z.boolean(),
+            identifierQuoting: z.enum(['always', 'needed', 'never']).optional(),
+          })
+          .optional(),
+        notation: z.enum(['crowsFoot', 'idef1x', 'uml', 'simple']).optional(),
+        edgeRouting: z.enum(['bezier', 'straight', 'smoothstep', 'orthogonal']).optional(),
+        naming: z
+          .object({
+            case: z.enum(['snake_case', 'camelCase', 'PascalCase']),
+            tableNames: z.enum(['singular', 'plural', 'any']),
+            foreignKeyPattern: z.string(),
+            primaryKeyName: z.string(),
+          })
+          .optional(),
+      })
+      .passthrough()
+      .optional(),
+    userTypes: z.array(userTypeSchema).optional(),
+  })
+  .passthrough();
+
+// Version 2: the same, except that columns are referenced by name
+const projectSchemaV2 = projectSchemaV3.extend({
+  formatVersion: z.literal(2),
+  tables: z.array(
+    tableSchema.extend({
+      fields: z.array(fieldSchema.extend({ foreignKey: namedForeignKeySchema.optional() })),
+    })
+  ),
+  connections: z.array(
+    connectionSchema
+      .omit({ sourceFieldId: true, targetFieldId: true })
+      .extend({ sourceField: z.string(), targetField: z.string() })
+  ),
+});
+
+type ProjectV2 = z.infer<typeof projectSchemaV2>;
+
+// Keyed by format version
+const PROJECT_SCHEMAS: Record<number, z.ZodTypeAny> = {
+  1: projectSchemaV1,
+  2: projectSchemaV2,
+  3: projectSchemaV3,
+};
+
+const migrateV1ToV2 = (project: ProjectV1): z.input<typeof projectSchemaV2> => {
+  const now = new Date().toISOString();
+  return {
+    ...project,
+    formatVersion: 2,
+    tables: (project.tables ?? []).map((table) => ({
+      ...table,
+      position: table.position ?? { x: 0, y: 0 },
+      fields: table.fields.map(({ foreignKey, ...field }) => ({
+        ...field,
+        ...(foreignKey ? { foreignKey } : {}),
+        notNull: field.notNull ?? false,
+        primary: field.primary ?? false,
+        unique: field.unique ?? false,
+      })),
+    })),
+    connections: (project.connections ?? []).map((connection) => ({
+      ...connection,
+      relationshipType: connection.relationshipType === 'oneToOne' ? 'oneToOne' : 'oneToMany',
+    })),
+    createdAt: project.createdAt ?? project.updatedAt ?? now,
+    updatedAt: project.updatedAt ?? project.createdAt ?? now,
+  };
+};
+
+// References that no longer resolve are dropped, the relationship repair on load tidies up
+const migrateV2ToV3 = (project: ProjectV2): z.input<typeof projectSchemaV3> => {
+  const fieldId = (tableId: string, name: string): string | undefined =>
+    project.tables.find((t) => t.id === tableId)?.fields.find((f) => f.name === name)?.id;
+  return {
+    ...project,
+    formatVersion: 3,
+    tables: project.tables.map((table) => ({
+      ...table,
+      fields: table.fields.map(({ foreignKey, ...field }) => {
+        const id = foreignKey && fieldId(foreignKey.tableId, foreignKey.fieldName);
+        return id ? { ...field, foreignKey: { tableId: foreignKey.tableId, fieldId: id } } : field;
+      }),
+    })),
+    connections: project.connections.flatMap(({ sourceField, targetField, ...connection }) => {
+      const sourceFieldId = fieldId(connection.sourceId, sourceField);
+      const targetFieldId = fieldId(connection.targetId, targetField);
+      return sourceFieldId && targetFieldId
+        ? [{ ...connection, sourceFieldId, targetFieldId }]
+        : [];
+    }),
+  };
+};
+
+// Keyed by the version they upgrade from. Each receives data already validated against that
+// version's schema and returns data for the next version.
+const MIGRATIONS: Record<number, (project: unknown) => unknown> = {
+  1: (project) => migrateV1ToV2(project as ProjectV1),
+  2: (project) => migrateV2ToV3(project as ProjectV2),
+};
+
+// A saved project that failed validation or migration. It is kept in storage untouched.
+export interface QuarantinedProject {
+  id: string;
+  name: string;
+  error: string;
+  data: unknown;
+}
+
+// `migrated` is set when the data was upgraded or repaired and should be written back
+export type ProjectLoadResult =
+  | { status: 'loaded'; project: Project; migrated: boolean; repairs: string[] }
+  | { status: 'quarantined'; quarantined: QuarantinedProject };
+
+const describeIssues = (error: z.ZodError): string =>
+  error.issues
+    .slice(0, 3)
+    .map((issue) => `${issue.path.join('.') || 'project'}: ${issue.message}`)
+    .join('; ');
+
+const readString = (data: unknown, key: string): string | undefined => {
+  const value = data && typeof data === 'object' ? (data as Record<string, unknown>)[key] : null;
+  return typeof value === 'string' ? value : undefined;
+};
+
+/**
+ * Validates a saved project against the schema of its format version and upgrades it to the
+ * current version. Data without a formatVersion is treated as version 1.
+ */
+export const loadProject = (data: unknown): ProjectLoadResult => {
+  const quarantine = (error: string): ProjectLoadResult => ({
+    status: 'quarantined',
+    quarantined: {
+      id: readString(data, 'id') ?? 'unknown',
+      name: readString(data, 'name') ?? 'Untitled project',
+      error,
+      data,
+    },
+  });
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return quarantine('Saved data is not a project object');
+  }
+
+  const rawVersion = (data as Record<string, unknown>).formatVersion ?? 1;
+  if (typeof rawVersion !== 'number' || !PROJECT_SCHEMAS[rawVersion]) {
+    return quarantine(
+      typeof rawVersion === 'number' && rawVersion > CURRENT_FORMAT_VERSION
+        ? `Format version ${rawVersion} is newer than this app supports (${CURRENT_FORMAT_VERSION})`
+        : `Unknown format version ${String(rawVersion)}`
+    );
+  }
+
+  let current: unknown = data;
+  for (let version = rawVersion; version <= CURRENT_FORMAT_VERSION; version += 1) {
+    const parsed = PROJECT_SCHEMAS[version].safeParse(current);
+    if (!parsed.success) {
+      return quarantine(`Invalid version ${version} project: ${describeIssues(parsed.error)}`);
+    }
+    if (version === CURRENT_FORMAT_VERSION) {
+      const project = parsed.data as Project;
+      // Earlier releases could save a foreignKey without its connection and the other way round
+      const repairs = syncRelationships(project);
+      return {
+        status: 'loaded',
+        project,
+        migrated: version !== rawVersion || repairs.length > 0,
+        repairs,
+      };
+    }
+
+    try {
+      current = MIGRATIONS[version](parsed.data);
+    } catch (error) {
+      return quarantine(
+        `Migration from version ${version} failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+  return quarantine(`No migration path from format version ${rawVersion}`);
+};
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Project } from '@/types/schema';
+import {
+  LEGACY_STORAGE_KEY,
+  ProjectStorage,
+  createMemoryStorage,
+  migrateFromLocalStorage,
+} from '@/utils/projectStorage';
+import { loadExampleProject } from '@/test/fixtures';
+
+const project = (id: string, name = id): Project => ({ ...loadExampleProject(), id, name });
+
+// Node has no localStorage, so the migration gets a Map-backed stand-in
+const stubLocalStorage = (): Map<string, string> => {
+  const items = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key),
+  });
+  return items;
+};
+
+const savedIds = async (storage: ProjectStorage): Promise<string[]> =>
+  (await storage.loadAll()).map((record) => (record as Project).id).sort();
+
+describe('migrateFromLocalStorage', () => {
+  let items: Map<string, string>;
+
+  beforeEach(() => {
+    items = stubLocalStorage();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('copies the legacy projects once and leaves existing ones alone', async () => {
+    const storage = createMemoryStorage([project('a', 'Renamed since')]);
+    items.set(LEGACY_STORAGE_KEY, JSON.stringify([project('a'), project('b')]));
+
+    expect(await migrateFromLocalStorage(storage)).toBe(1);
+    expect(items.has(LEGACY_STORAGE_KEY)).toBe(false);
+    expect(await migrateFromLocalStorage(storage)).toBe(0);
+
+    // A second copy of the key, e.g. written by a tab still on the old version
+    items.set(LEGACY_STORAGE_KEY, JSON.stringify([project('a'), project('b')]));
+    expect(await migrateFromLocalStorage(storage)).toBe(0);
+    expect(await savedIds(storage)).toEqual(['a', 'b']);
+    const [first] = (await storage.loadAll()) as Project[];
+    expect(first.name).toBe('Renamed since');
+  });
+
+  it('keeps the legacy key until every project has been saved', async () => {
+    const memory = createMemoryStorage();
+    let saves = 0;
+    const failing: ProjectStorage = {
+      ...memory,
+      save: async (p) => {
+        if (++saves > 1) throw new Error('Quota exceeded');
+        await memory.save(p);
+      },
+    };
+    items.set(LEGACY_STORAGE_KEY, JSON.stringify([project('a'), project('b')]));
+
+    await expect(migrateFromLocalStorage(failing)).rejects.toThrow('Quota exceeded');
+    expect(items.has(LEGACY_STORAGE_KEY)).toBe(true);
+
+    // The next attempt picks up where the failed one stopped
+    expect(await migrateFromLocalStorage(memory)).toBe(1);
+    expect(items.has(LEGACY_STORAGE_KEY)).toBe(false);
+    expect(await savedIds(memory)).toEqual(['a', 'b']);
+  });
+
+  it.each([
+    ['corrupt JSON', '[{"id": "a",'],
+    ['data that is not a list', '{"id": "a"}'],
+  ])('leaves %s in place', async (_, stored) => {
+    const storage = createMemoryStorage();
+    items.set(LEGACY_STORAGE_KEY, stored);
+
+    await expect(migrateFromLocalStorage(storage)).rejects.toThrow();
+    expect(items.get(LEGACY_STORAGE_KEY)).toBe(stored);
+    expect(await storage.loadAll()).toEqual([]);
+  });
+});
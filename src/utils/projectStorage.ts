@@ -0,0 +1,127 @@
+// projectStorage.ts
+import { Project } from '@/types/schema';
+
+// Persistence backend for projects. Projects are stored one record each, so a change to one
+// project only rewrites that project. Records are returned unvalidated, see loadProject.
+export interface ProjectStorage {
+  loadAll: () => Promise<unknown[]>;
+  save: (project: Project) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+// Key used before projects moved to IndexedDB
+export const LEGACY_STORAGE_KEY = 'db-canvas-projects';
+
+const DB_NAME = 'db-canvas';
+const DB_VERSION = 1;
+const PROJECT_STORE = 'projects';
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = (): void => resolve(request.result);
+    request.onerror = (): void => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = (): void => resolve();
+    transaction.onerror = (): void => reject(transaction.error);
+    transaction.onabort = (): void => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (): void => {
+      if (!request.result.objectStoreNames.contains(PROJECT_STORE)) {
+        request.result.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = (): void => resolve(request.result);
+    request.onerror = (): void => reject(request.error);
+    request.onblocked = (): void => reject(new Error('IndexedDB upgrade blocked by another tab'));
+  });
+
+export const createIndexedDBStorage = (): ProjectStorage => {
+  let database: Promise<IDBDatabase> | null = null;
+  const getDatabase = (): Promise<IDBDatabase> => {
+    database ??= openDatabase().catch((error) => {
+      database = null; // Allow a retry on the next call
+      throw error;
+    });
+    return database;
+  };
+
+  const withStore = async <T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const db = await getDatabase();
+    const transaction = db.transaction(PROJECT_STORE, mode);
+    // Resolve only once the transaction has committed, not just when the request succeeded
+    const [result] = await Promise.all([
+      promisifyRequest(run(transaction.objectStore(PROJECT_STORE))),
+      transactionDone(transaction),
+    ]);
+    return result;
+  };
+
+  return {
+    loadAll: (): Promise<unknown[]> => withStore('readonly', (store) => store.getAll()),
+    save: async (project): Promise<void> => {
+      await withStore('readwrite', (store) => store.put(project));
+    },
+    remove: async (id): Promise<void> => {
+      await withStore('readwrite', (store) => store.delete(id));
+    },
+  };
+};
+
+// Keeps projects in memory only, for tests and browsers without IndexedDB
+export const createMemoryStorage = (initialProjects: Project[] = []): ProjectStorage => {
+  const records = new Map(initialProjects.map((project) => [project.id, project]));
+
+  return {
+    loadAll: async (): Promise<unknown[]> => Array.from(records.values()),
+    save: async (project): Promise<void> => {
+      records.set(project.id, project);
+    },
+    remove: async (id): Promise<void> => {
+      records.delete(id);
+    },
+  };
+};
+
+export const createProjectStorage = (): ProjectStorage =>
+  typeof indexedDB === 'undefined' ? createMemoryStorage() : createIndexedDBStorage();
+
+/**
+ * Copies projects saved under the legacy localStorage key into the given storage, then removes
+ * the key. Projects that already exist in the storage are left untouched. Returns the number of
+ * migrated projects.
+ */
+export const migrateFromLocalStorage = async (storage: ProjectStorage): Promise<number> => {
+  if (typeof localStorage === 'undefined') return 0;
+
+  const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!stored) return 0;
+
+  const legacyProjects: unknown = JSON.parse(stored);
+  if (!Array.isArray(legacyProjects)) {
+    throw new Error(`Unexpected data under "${LEGACY_STORAGE_KEY}"`);
+  }
+
+  const existingIds = new Set(
+    (await storage.loadAll()).map((record) => (record as Partial<Project> | null)?.id)
+  );
+  const toMigrate = (legacyProjects as Project[]).filter(
+    (project) => project && typeof project.id === 'string' && !existingIds.has(project.id)
+  );
+  for (const project of toMigrate) {
+    await storage.save(project);
+  }
+
+  // Only drop the legacy copy once everything has been written
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  return toMigrate.length;
+};
@@ -0,0 +1,162 @@
+// relationships.ts
+import { v4 as uuidv4 } from 'uuid';
+import { Connection, Field, Project, ReferentialAction, TableNode } from '@/types/schema';
+
+export const RELATIONSHIP_TYPES: { value: Connection['relationshipType']; label: string }[] = [
+  { value: 'oneToOne', label: 'One to one (1:1)' },
+  { value: 'oneToMany', label: 'One to many (1:N)' },
+];
+
+export const REFERENTIAL_ACTIONS: ReferentialAction[] = [
+  'NO ACTION',
+  'RESTRICT',
+  'CASCADE',
+  'SET NULL',
+  'SET DEFAULT',
+];
+
+// Short form for labels, e.g. "ON DELETE CASCADE · ON UPDATE RESTRICT"
+export const describeReferentialActions = (connection: Connection): string =>
+  [
+    connection.onDelete && `ON DELETE ${connection.onDelete}`,
+    connection.onUpdate && `ON UPDATE ${connection.onUpdate}`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+// Used when a connection has no name of its own, so it follows table and column renames
+export const getDefaultForeignKeyName = (
+  tableName: string,
+  column: string,
+  refTableName: string
+): string => `fk_${tableName}_${column}_${refTableName}`;
+
+type RelationshipState = Pick<Project, 'tables' | 'connections'>;
+
+export const findField = (
+  tables: TableNode[],
+  tableId: string,
+  fieldId: string
+): Field | undefined => tables.find((t) => t.id === tableId)?.fields.find((f) => f.id === fieldId);
+
+// Both columns of a connection, undefined where they no longer exist
+export const getConnectionFields = (
+  connection: Connection,
+  tables: TableNode[]
+): { source?: Field; target?: Field } => ({
+  source: findField(tables, connection.sourceId, connection.sourceFieldId),
+  target: findField(tables, connection.targetId, connection.targetFieldId),
+});
+
+// "orders.customer_id → customers.id", for messages
+export const describeConnection = (connection: Connection, tables: TableNode[]): string => {
+  const name = (tableId: string, fieldId: string): string => {
+    const table = tables.find((t) => t.id === tableId);
+    const field = table?.fields.find((f) => f.id === fieldId);
+    return `${table?.name ?? '?'}.${field?.name ?? '?'}`;
+  };
+  return `${name(connection.sourceId, connection.sourceFieldId)} → ${name(
+    connection.targetId,
+    connection.targetFieldId
+  )}`;
+};
+
+/**
+ * Makes every Field.foreignKey and connection describe the same relations. Mutates `project`, so
+ * run it on an Immer draft after any change, passing the state before the change in `previous`:
+ * - relations to deleted tables or columns are dropped
+ * - when one side of a relation changed, the other side is brought in line; a connection that
+ *   changed wins over its column, e.g. deleting a connection clears the column's foreignKey
+ * - a foreignKey without a connection gets one, so it is drawn
+ * Without `previous` it repairs saved data, with connections winning over columns.
+ * Returns what was fixed, for reporting.
+ */
+export const syncRelationships = (
+  project: RelationshipState,
+  previous?: RelationshipState
+): string[] => {
+  const fixes: string[] = [];
+
+  // One connection per referencing column, between columns that exist
+  const seen = new Set<string>();
+  const kept = project.connections.filter((connection) => {
+    const { source, target } = getConnectionFields(connection, project.tables);
+    if (!source || !target) {
+      fixes.push(
+        `Removed the relation ${describeConnection(connection, project.tables)}, a column or table is missing`
+      );
+      return false;
+    }
+    const key = `${connection.sourceId}:${source.id}`;
+    if (seen.has(key)) {
+      fixes.push(
+        `Removed the duplicate relation ${describeConnection(connection, project.tables)}`
+      );
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+  if (kept.length !== project.connections.length) project.connections = kept;
+
+  project.tables.forEach((table) =>
+    table.fields.forEach((field) => {
+      const onField = (c: Connection): boolean =>
+        c.sourceId === table.id && c.sourceFieldId === field.id;
+      const connection = project.connections.find(onField);
+      const foreignKey = field.foreignKey;
+      const before = previous && findField(previous.tables, table.id, field.id);
+      const beforeConnection = previous?.connections.find(onField);
+      const connectionChanged =
+        !!previous &&
+        (beforeConnection?.id !== connection?.id ||
+          beforeConnection?.targetId !== connection?.targetId ||
+          beforeConnection?.targetFieldId !== connection?.targetFieldId);
+      const foreignKeyChanged =
+        !!previous &&
+        (before?.foreignKey?.tableId !== foreignKey?.tableId ||
+          before?.foreignKey?.fieldId !== foreignKey?.fieldId);
+
+      if (connection && (connectionChanged || !foreignKeyChanged)) {
+        if (
+          foreignKey?.tableId !== connection.targetId ||
+          foreignKey.fieldId !== connection.targetFieldId
+        ) {
+          field.foreignKey = { tableId: connection.targetId, fieldId: connection.targetFieldId };
+          fixes.push(`Set the foreign key of ${table.name}.${field.name} from its relation`);
+        }
+      } else if (connection) {
+        // The column was linked elsewhere or unlinked
+        if (foreignKey && findField(project.tables, foreignKey.tableId, foreignKey.fieldId)) {
+          connection.targetId = foreignKey.tableId;
+          connection.targetFieldId = foreignKey.fieldId;
+        } else {
+          project.connections = project.connections.filter((c) => c.id !== connection.id);
+          if (foreignKey) delete field.foreignKey;
+        }
+      } else if (foreignKey) {
+        if (connectionChanged) {
+          delete field.foreignKey;
+        } else if (findField(project.tables, foreignKey.tableId, foreignKey.fieldId)) {
+          const added: Connection = {
+            id: uuidv4(),
+            sourceId: table.id,
+            targetId: foreignKey.tableId,
+            sourceFieldId: field.id,
+            targetFieldId: foreignKey.fieldId,
+            relationshipType: field.unique ? 'oneToOne' : 'oneToMany',
+          };
+          project.connections.push(added);
+          fixes.push(`Added the missing relation ${describeConnection(added, project.tables)}`);
+        } else {
+          delete field.foreignKey;
+          fixes.push(
+            `Removed the foreign key of ${table.name}.${field.name}, its target is missing`
+          );
+        }
+      }
+    })
+  );
+
+  return fixes;
+};
@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import { Project } from '@/types/schema';
+import { LintRuleId, lintProject } from '@/utils/schemaLinter';
+import { parseSQLSchema } from '@/utils/sqlParser';
+import { CURRENT_FORMAT_VERSION } from '@/utils/projectFormat';
+
+const projectFromSQL = (sql: string): Project => ({
+  ...parseSQLSchema(sql),
+  formatVersion: CURRENT_FORMAT_VERSION,
+  id: 'p',
+  name: 'Imported',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+});
+
+const messages = (project: Project, rule: LintRuleId): string[] =>
+  lintProject(project)
+    .filter((problem) => problem.rule === rule)
+    .map((problem) => problem.message);
+
+describe('lintProject', () => {
+  it('flags referential actions the column cannot carry out', () => {
+    const project = projectFromSQL(`
+      CREATE TABLE users (id INT PRIMARY KEY);
+      CREATE TABLE posts (
+        id INT PRIMARY KEY,
+        author_id INT NOT NULL REFERENCES users (id) ON DELETE SET NULL,
+        editor_id INT REFERENCES users (id) ON UPDATE SET DEFAULT
+      );
+    `);
+    const messages = lintProject(project)
+      .filter((problem) => problem.rule === 'invalid-referential-action')
+      .map((problem) => problem.message);
+
+    expect(messages).toEqual([
+      "posts.author_id → users.id: ON DELETE SET NULL needs a nullable column, but 'posts.author_id' is NOT NULL",
+      "posts.editor_id → users.id: ON UPDATE SET DEFAULT needs a default value on 'posts.editor_id'",
+    ]);
+  });
+
+  it('reports nothing for valid actions', () => {
+    const project = projectFromSQL(`
+      CREATE TABLE users (id INT PRIMARY KEY);
+      CREATE TABLE posts (id INT PRIMARY KEY, author_id INT REFERENCES users (id) ON DELETE SET NULL);
+    `);
+    expect(lintProject(project).some((p) => p.rule === 'invalid-referential-action')).toBe(false);
+  });
+
+  it('flags tables without a primary key', () => {
+    const project = projectFromSQL(`
+      CREATE TABLE users (id INT PRIMARY KEY);
+      CREATE TABLE audit_log (message TEXT);
+    `);
+    expect(messages(project, 'missing-primary-key')).toEqual([
+      "Table 'audit_log' has no primary key",
+    ]);
+  });
+
+  it('accepts an integer referencing a serial key and flags other type differences', () => {
+    const project = projectFromSQL(`
+      CREATE TABLE users (id SERIAL PRIMARY KEY);
+      CREATE TABLE tags (id INT PRIMARY KEY);
+      CREATE TABLE posts (
+        id SERIAL PRIMARY KEY,
+        author_id INTEGER REFERENCES users (id),
+        tag_id BIGINT REFERENCES tags (id)
+      );
+    `);
+    expect(messages(project, 'foreign-key-type-mismatch')).toEqual([
+      'posts.tag_id → tags.id: BIGINT does not match INT',
+    ]);
+  });
+
+  it('compares table and column names case-insensitively for duplicates', () => {
+    const project = projectFromSQL(`
+      CREATE TABLE users (id INT PRIMARY KEY, email TEXT, Email TEXT);
+      CREATE TABLE accounts (id INT PRIMARY KEY);
+    `);
+    // The parser keeps only the first of two tables with the same name, so rename one afterwards
+    project.tables[1].name = 'Users';
+    expect(messages(project, 'duplicate-name')).toEqual([
+      "Table name 'users' is used more than once",
+      "Table name 'Users' is used more than once",
+      "Column name 'email' is used more than once in 'users'",
+      "Column name 'Email' is used more than once in 'users'",
+    ]);
+  });
+
+  it('flags reserved table and column names for the project dialect', () => {
+    const project = projectFromSQL('CREATE TABLE "order" (id INT PRIMARY KEY, "user" TEXT);');
+    expect(messages(project, 'reserved-word')).toEqual([
+      "Table name 'order' is reserved in PostgreSQL",
+      "Column name 'order.user' is reserved in PostgreSQL",
+    ]);
+  });
+
+  it('flags relations and foreign keys whose table is gone', () => {
+    const project = projectFromSQL(`
+      CREATE TABLE users (id INT PRIMARY KEY);
+      CREATE TABLE posts (id INT PRIMARY KEY, author_id INT REFERENCES users (id));
+    `);
+    project.tables = project.tables.filter((table) => table.name !== 'users');
+    expect(messages(project, 'dangling-relation')).toEqual([
+      'Relation posts.author_id → ?.? points at a missing table or column',
+      "Foreign key of 'posts.author_id' points at a missing table or column",
+    ]);
+  });
+
+  it('counts only the leading column of a composite key as indexed', () => {
+    const project = projectFromSQL(`
+      CREATE TABLE posts (id INT PRIMARY KEY);
+      CREATE TABLE tags (id INT PRIMARY KEY);
+      CREATE TABLE users (id INT PRIMARY KEY);
+      CREATE TABLE post_tags (
+        post_id INT REFERENCES posts (id),
+        tag_id INT REFERENCES tags (id),
+        added_by INT UNIQUE REFERENCES users (id),
+        PRIMARY KEY (post_id, tag_id)
+      );
+    `);
+    expect(messages(project, 'unindexed-foreign-key')).toEqual([
+      "Foreign key column 'post_tags.tag_id' has no index",
+    ]);
+    project.settings = { sqlExport: { ...project.settings?.sqlExport, dialect: 'mysql' } };
+    expect(messages(project, 'unindexed-foreign-key')).toEqual([]);
+  });
+
+  it('checks names against each other without naming settings', () => {
+    const project = projectFromSQL(`
+      CREATE TABLE users (id INT PRIMARY KEY, created_at TIMESTAMP, lastLogin TIMESTAMP);
+      CREATE TABLE UserRoles (id INT PRIMARY KEY);
+    `);
+    expect(messages(project, 'naming-convention')).toEqual([
+      "Table name 'UserRoles' is not snake_case like the rest of the schema",
+      "Column name 'users.lastLogin' is not snake_case like the rest of the schema",
+    ]);
+  });
+
+  it('checks names against the naming settings when there are some', () => {
+    const project = projectFromSQL(`
+      CREATE TABLE user_roles (id INT PRIMARY KEY);
+      CREATE TABLE person (id INT PRIMARY KEY, first_name TEXT);
+    `);
+    project.settings = {
+      naming: {
+        case: 'camelCase',
+        tableNames: 'plural',
+        foreignKeyPattern: '{table}_{column}',
+        primaryKeyName: 'id',
+      },
+    };
+    expect(messages(project, 'naming-convention')).toEqual([
+      "Table 'user_roles' should be named 'userRoles'",
+      "Table 'person' should be named 'people'",
+      "Column 'person.first_name' should be named 'firstName'",
+    ]);
+  });
+});
@@ -0,0 +1,277 @@
+// schemaLinter.ts
+import { Field, Project, SQLDialect, TableNode } from '@/types/schema';
+import { getDialectLabel, isReservedWord, mapColumnType } from '@/utils/sqlDialects';
+import { getReferencingType } from '@/utils/junctionTables';
+import {
+  detectConvention,
+  matchesConvention,
+  planConventionRenames,
+} from '@/utils/namingConventions';
+import { describeConnection, getConnectionFields } from '@/utils/relationships';
+import { getProjectDialect } from '@/utils/typeCatalog';
+import { getReferentialActionErrors } from '@/utils/validation';
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export type LintRuleId =
+  | 'missing-primary-key'
+  | 'foreign-key-type-mismatch'
+  | 'duplicate-name'
+  | 'reserved-word'
+  | 'dangling-relation'
+  | 'invalid-referential-action'
+  | 'unindexed-foreign-key'
+  | 'naming-convention';
+
+export interface LintProblem {
+  id: string; // Stable across runs, for React keys
+  rule: LintRuleId;
+  severity: LintSeverity;
+  message: string;
+  tableId?: string; // Where the problem is shown on the canvas
+  fieldId?: string;
+  connectionId?: string;
+}
+
+type Finding = Omit<LintProblem, 'id' | 'rule' | 'severity'>;
+
+interface LintContext {
+  project: Project;
+  dialect: SQLDialect;
+}
+
+interface LintRule {
+  id: LintRuleId;
+  label: string;
+  severity: LintSeverity;
+  check: (context: LintContext) => Finding[];
+}
+
+const eachField = <T>(tables: TableNode[], check: (table: TableNode, field: Field) => T[]): T[] =>
+  tables.flatMap((table) => table.fields.flatMap((field) => check(table, field)));
+
+// Names that appear more than once, compared the way the databases do: case-insensitively
+const duplicates = <T extends { name: string }>(items: T[]): T[] => {
+  const counts = new Map<string, number>();
+  items.forEach((item) => {
+    const key = item.name.toLowerCase();
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  return items.filter((item) => counts.get(item.name.toLowerCase()) > 1);
+};
+
+// Whether lookups by this column can use an index, i.e. it leads a key or an index
+const isIndexed = (table: TableNode, field: Field): boolean =>
+  field.unique ||
+  table.fields.find((f) => f.primary)?.id === field.id ||
+  (table.indexes ?? []).some((index) => index.columns[0]?.fieldId === field.id) ||
+  (table.constraints ?? []).some((c) => c.type === 'unique' && c.fieldIds[0] === field.id);
+
+const normalizedType = (type: string, dialect: SQLDialect): string =>
+  mapColumnType(type, dialect).replace(/\s+/g, ' ').toUpperCase();
+
+export const LINT_RULES: LintRule[] = [
+  {
+    id: 'missing-primary-key',
+    label: 'Table without primary key',
+    severity: 'warning',
+    check: ({ project }) =>
+      project.tables
+        .filter((table) => !table.fields.some((f) => f.primary))
+        .map((table) => ({
+          tableId: table.id,
+          message: `Table '${table.name}' has no primary key`,
+        })),
+  },
+  {
+    id: 'foreign-key-type-mismatch',
+    label: 'Foreign key type mismatch',
+    severity: 'error',
+    check: ({ project, dialect }) =>
+      project.connections.flatMap((connection) => {
+        const { source, target } = getConnectionFields(connection, project.tables);
+        if (!source || !target) return [];
+        // A serial key is referenced by a plain integer
+        const expected = normalizedType(getReferencingType(target.type), dialect);
+        if (normalizedType(source.type, dialect) === expected) return [];
+        return [
+          {
+            tableId: connection.sourceId,
+            fieldId: source.id,
+            connectionId: connection.id,
+            message: `${describeConnection(connection, project.tables)}: ${source.type} does not match ${target.type}`,
+          },
+        ];
+      }),
+  },
+  {
+    id: 'duplicate-name',
+    label: 'Duplicate name',
+    severity: 'error',
+    check: ({ project }) => [
+      ...duplicates(project.tables).map((table) => ({
+        tableId: table.id,
+        message: `Table name '${table.name}' is used more than once`,
+      })),
+      ...project.tables.flatMap((table) =>
+        duplicates(table.fields).map((field) => ({
+          tableId: table.id,
+          fieldId: field.id,
+          message: `Column name '${field.name}' is used more than once in '${table.name}'`,
+        }))
+      ),
+    ],
+  },
+  {
+    id: 'reserved-word',
+    label: 'Reserved word',
+    severity: 'warning',
+    check: ({ project, dialect }) => [
+      ...project.tables
+        .filter((table) => isReservedWord(table.name, dialect))
+        .map((table) => ({
+          tableId: table.id,
+          message: `Table name '${table.name}' is reserved in ${getDialectLabel(dialect)}`,
+        })),
+      ...eachField(project.tables, (table, field) =>
+        isReservedWord(field.name, dialect)
+          ? [
+              {
+                tableId: table.id,
+                fieldId: field.id,
+                message: `Column name '${table.name}.${field.name}' is reserved in ${getDialectLabel(dialect)}`,
+              },
+            ]
+          : []
+      ),
+    ],
+  },
+  {
+    id: 'dangling-relation',
+    label: 'Dangling relation',
+    severity: 'error',
+    check: ({ project }) => [
+      ...project.connections
+        .filter((connection) => {
+          const { source, target } = getConnectionFields(connection, project.tables);
+          return !source || !target;
+        })
+        .map((connection) => ({
+          tableId: project.tables.some((t) => t.id === connection.sourceId)
+            ? connection.sourceId
+            : connection.targetId,
+          connectionId: connection.id,
+          message: `Relation ${describeConnection(connection, project.tables)} points at a missing table or column`,
+        })),
+      ...eachField(project.tables, (table, field) => {
+        const { foreignKey } = field;
+        const target = foreignKey && project.tables.find((t) => t.id === foreignKey.tableId);
+        if (!foreignKey || target?.fields.some((f) => f.id === foreignKey.fieldId)) return [];
+        return [
+          {
+            tableId: table.id,
+            fieldId: field.id,
+            message: `Foreign key of '${table.name}.${field.name}' points at a missing table or column`,
+          },
+        ];
+      }),
+    ],
+  },
+  {
+    id: 'invalid-referential-action',
+    label: 'Invalid referential action',
+    severity: 'error',
+    // SET NULL on a NOT NULL column and the like, also when the column changed afterwards
+    check: ({ project, dialect }) =>
+      project.connections.flatMap((connection) =>
+        getReferentialActionErrors(connection, project.tables, dialect).map((message) => ({
+          tableId: connection.sourceId,
+          fieldId: connection.sourceFieldId,
+          connectionId: connection.id,
+          message: `${describeConnection(connection, project.tables)}: ${message}`,
+        }))
+      ),
+  },
+  {
+    id: 'unindexed-foreign-key',
+    label: 'Foreign key without index',
+    severity: 'info',
+    // MySQL adds an index for every foreign key by itself
+    check: ({ project, dialect }) =>
+      dialect === 'mysql'
+        ? []
+        : eachField(project.tables, (table, field) =>
+            field.foreignKey && !isIndexed(table, field)
+              ? [
+                  {
+                    tableId: table.id,
+                    fieldId: field.id,
+                    message: `Foreign key column '${table.name}.${field.name}' has no index`,
+                  },
+                ]
+              : []
+          ),
+  },
+  {
+    id: 'naming-convention',
+    label: 'Naming convention',
+    severity: 'info',
+    check: ({ project }): Finding[] => {
+      // Configured conventions are checked in full, otherwise names should match each other
+      const { naming } = project.settings ?? {};
+      if (naming) {
+        return planConventionRenames(project, naming).map((rename) => ({
+          tableId: rename.tableId,
+          fieldId: rename.fieldId,
+          message: `${rename.fieldId ? 'Column' : 'Table'} '${rename.before}' should be named '${rename.name}'`,
+        }));
+      }
+      const names = [
+        ...project.tables.map((t) => t.name),
+        ...project.tables.flatMap((t) => t.fields.map((f) => f.name)),
+      ];
+      const convention = detectConvention(names);
+      if (!convention) return [];
+      return [
+        ...project.tables
+          .filter((table) => !matchesConvention(table.name, convention))
+          .map((table) => ({
+            tableId: table.id,
+            message: `Table name '${table.name}' is not ${convention} like the rest of the schema`,
+          })),
+        ...eachField(project.tables, (table, field) =>
+          matchesConvention(field.name, convention)
+            ? []
+            : [
+                {
+                  tableId: table.id,
+                  fieldId: field.id,
+                  message: `Column name '${table.name}.${field.name}' is not ${convention} like the rest of the schema`,
+                },
+              ]
+        ),
+      ];
+    },
+  },
+];
+
+const SEVERITY_ORDER: LintSeverity[] = ['error', 'warning', 'info'];
+
+/**
+ * Runs every rule over the project. Problems come sorted by severity, then in rule order.
+ * Cheap enough to run on every change.
+ */
+export const lintProject = (project: Project): LintProblem[] => {
+  const context: LintContext = { project, dialect: getProjectDialect(project) };
+  return LINT_RULES.flatMap((rule) =>
+    rule.check(context).map((finding) => ({
+      ...finding,
+      id: [rule.id, finding.tableId, finding.fieldId, finding.connectionId].join(':'),
+      rule: rule.id,
+      severity: rule.severity,
+    }))
+  ).sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+};
+
+export const countProblems = (problems: LintProblem[], severity: LintSeverity): number =>
+  problems.filter((problem) => problem.severity === severity).length;
@@ -0,0 +1,256 @@
+// schemaMerge.ts
+import { v4 as uuidv4 } from 'uuid';
+import { Connection, Field, Project, TableNode } from '@/types/schema';
+import { DEFAULT_NODE_WIDTH } from '@/utils/layout';
+import { syncJunctionTables } from '@/utils/junctionTables';
+import { remapConstraintFields } from '@/utils/tableConstraints';
+import { remapIndexFields } from '@/utils/tableIndexes';
+
+type SchemaContent = Pick<Project, 'tables' | 'connections'>;
+
+export type FieldDifference = 'type' | 'notNull';
+
+interface RelationRef {
+  sourceTable: string;
+  sourceField: string;
+  targetTable: string;
+  targetField: string;
+}
+
+// Changes are keyed by table/field names, so they stay valid whichever subset is accepted
+export type SchemaChange =
+  | { id: string; kind: 'addTable'; tableName: string; table: TableNode }
+  | { id: string; kind: 'addField'; tableName: string; field: Field }
+  | {
+      id: string;
+      kind: 'modifyField';
+      tableName: string;
+      fieldName: string;
+      before: Field;
+      after: Field;
+      differences: FieldDifference[];
+    }
+  | {
+      id: string;
+      kind: 'addRelation';
+      relation: RelationRef;
+      relationshipType: Connection['relationshipType'];
+      actions: Pick<Connection, 'onDelete' | 'onUpdate'>;
+      // Target the source column referenced before the import, if it pointed somewhere else
+      previousTarget?: Pick<RelationRef, 'targetTable' | 'targetField'>;
+    };
+
+const sameName = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase();
+
+const findTable = (tables: TableNode[], name: string): TableNode | undefined =>
+  tables.find((t) => sameName(t.name, name));
+
+const findField = (table: TableNode | undefined, name: string): Field | undefined =>
+  table?.fields.find((f) => sameName(f.name, name));
+
+const normalizeType = (type: string): string => type.replace(/\s+/g, '').toUpperCase();
+
+// Foreign keys are carried by addRelation changes, so they are stripped from added fields
+const withoutForeignKey = (field: Field): Field => {
+  const copy = { ...field };
+  delete copy.foreignKey;
+  return copy;
+};
+
+const describeRelations = (content: SchemaContent): RelationRef[] =>
+  content.connections.flatMap((conn) => {
+    const source = content.tables.find((t) => t.id === conn.sourceId);
+    const target = content.tables.find((t) => t.id === conn.targetId);
+    const sourceField = source?.fields.find((f) => f.id === conn.sourceFieldId);
+    const targetField = target?.fields.find((f) => f.id === conn.targetFieldId);
+    if (!sourceField || !targetField) return [];
+    return [
+      {
+        sourceTable: source.name,
+        sourceField: sourceField.name,
+        targetTable: target.name,
+        targetField: targetField.name,
+      },
+    ];
+  });
+
+/**
+ * Compares an imported schema against the current project. Tables are matched by name: unknown
+ * tables and columns become additions, and existing columns whose type or nullability differ
+ * are flagged. Tables that only exist locally produce no change and are always kept.
+ */
+export const diffImportedSchema = (
+  current: SchemaContent,
+  incoming: SchemaContent
+): SchemaChange[] => {
+  const changes: SchemaChange[] = [];
+
+  incoming.tables.forEach((incomingTable) => {
+    const localTable = findTable(current.tables, incomingTable.name);
+    if (!localTable) {
+      changes.push({
+        id: `table:${incomingTable.name}`,
+        kind: 'addTable',
+        tableName: incomingTable.name,
+        table: incomingTable,
+      });
+      return;
+    }
+
+    incomingTable.fields.forEach((incomingField) => {
+      const localField = findField(localTable, incomingField.name);
+      if (!localField) {
+        changes.push({
+          id: `field:${localTable.name}.${incomingField.name}`,
+          kind: 'addField',
+          tableName: localTable.name,
+          field: incomingField,
+        });
+        return;
+      }
+
+      const differences: FieldDifference[] = [];
+      if (normalizeType(localField.type) !== normalizeType(incomingField.type)) {
+        differences.push('type');
+      }
+      if (localField.notNull !== incomingField.notNull) {
+        differences.push('notNull');
+      }
+      if (differences.length) {
+        changes.push({
+          id: `modify:${localTable.name}.${localField.name}`,
+          kind: 'modifyField',
+          tableName: localTable.name,
+          fieldName: localField.name,
+          before: localField,
+          after: incomingField,
+          differences,
+        });
+      }
+    });
+  });
+
+  const localRelations = describeRelations(current);
+  incoming.connections.forEach((conn) => {
+    const [relation] = describeRelations({ tables: incoming.tables, connections: [conn] });
+    if (!relation) return;
+
+    const existing = localRelations.find(
+      (r) =>
+        sameName(r.sourceTable, relation.sourceTable) &&
+        sameName(r.sourceField, relation.sourceField)
+    );
+    if (
+      existing &&
+      sameName(existing.targetTable, relation.targetTable) &&
+      sameName(existing.targetField, relation.targetField)
+    ) {
+      return;
+    }
+
+    changes.push({
+      id: `relation:${relation.sourceTable}.${relation.sourceField}`,
+      kind: 'addRelation',
+      relation,
+      relationshipType: conn.relationshipType,
+      actions: { onDelete: conn.onDelete, onUpdate: conn.onUpdate },
+      previousTarget: existing && {
+        targetTable: existing.targetTable,
+        targetField: existing.targetField,
+      },
+    });
+  });
+
+  return changes;
+};
+
+// Places new tables to the right of the existing diagram, keeping their imported layout
+const placeNewTables = (existing: TableNode[], added: TableNode[]): void => {
+  if (!existing.length || !added.length) return;
+
+  const right = Math.max(...existing.map((t) => t.position.x)) + DEFAULT_NODE_WIDTH + 150;
+  const top = Math.min(...existing.map((t) => t.position.y));
+  const addedLeft = Math.min(...added.map((t) => t.position.x));
+  const addedTop = Math.min(...added.map((t) => t.position.y));
+
+  added.forEach((table) => {
+    table.position = {
+      x: table.position.x - addedLeft + right,
+      y: table.position.y - addedTop + top,
+    };
+  });
+};
+
+/**
+ * Applies the accepted changes from `diffImportedSchema` to the project content, in place.
+ * Relations whose tables or columns were not accepted are dropped.
+ */
+export const applySchemaChanges = (project: SchemaContent, accepted: SchemaChange[]): void => {
+  const addedIds = new Set<string>();
+
+  accepted.forEach((change) => {
+    if (change.kind === 'addTable') {
+      const fieldIds = new Map(change.table.fields.map((f) => [f.id, uuidv4()]));
+      const table: TableNode = {
+        ...change.table,
+        id: uuidv4(),
+        fields: change.table.fields.map((f) => ({
+          ...withoutForeignKey(f),
+          id: fieldIds.get(f.id) as string,
+        })),
+      };
+      if (change.table.constraints) {
+        table.constraints = remapConstraintFields(change.table.constraints, fieldIds);
+      }
+      if (change.table.indexes) {
+        table.indexes = remapIndexFields(change.table.indexes, fieldIds);
+      }
+      project.tables.push(table);
+      addedIds.add(table.id);
+    } else if (change.kind === 'addField') {
+      findTable(project.tables, change.tableName)?.fields.push({
+        ...withoutForeignKey(change.field),
+        id: uuidv4(),
+      });
+    } else if (change.kind === 'modifyField') {
+      const field = findField(findTable(project.tables, change.tableName), change.fieldName);
+      if (!field) return;
+      if (change.differences.includes('type')) field.type = change.after.type;
+      if (change.differences.includes('notNull')) field.notNull = change.after.notNull;
+    }
+  });
+
+  placeNewTables(
+    project.tables.filter((t) => !addedIds.has(t.id)),
+    project.tables.filter((t) => addedIds.has(t.id))
+  );
+
+  accepted.forEach((change) => {
+    if (change.kind !== 'addRelation') return;
+
+    const { relation } = change;
+    const sourceTable = findTable(project.tables, relation.sourceTable);
+    const targetTable = findTable(project.tables, relation.targetTable);
+    const sourceField = findField(sourceTable, relation.sourceField);
+    const targetField = findField(targetTable, relation.targetField);
+    if (!sourceTable || !targetTable || !sourceField || !targetField) return;
+
+    // A column references a single table, so a retargeted relation replaces the old one
+    project.connections = project.connections.filter(
+      (c) => !(c.sourceId === sourceTable.id && c.sourceFieldId === sourceField.id)
+    );
+    project.connections.push({
+      id: uuidv4(),
+      sourceId: sourceTable.id,
+      targetId: targetTable.id,
+      sourceFieldId: sourceField.id,
+      targetFieldId: targetField.id,
+      relationshipType: change.relationshipType,
+      ...change.actions,
+    });
+    sourceField.foreignKey = { tableId: targetTable.id, fieldId: targetField.id };
+  });
+
+  // Key type changes reach the link tables of many-to-many relations
+  syncJunctionTables(project);
+};
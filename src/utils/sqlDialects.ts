@@ -0,0 +1,322 @@
+// sqlDialects.ts
+import { IdentifierQuoting, SQLDialect } from '@/types/schema';
+
+export const SQL_DIALECTS: { value: SQLDialect; label: string }[] = [
+  { value: 'postgresql', label: 'PostgreSQL' },
+  { value: 'mysql', label: 'MySQL' },
+  { value: 'sqlite', label: 'SQLite' },
+];
+
+export const getDialectLabel = (dialect: SQLDialect): string =>
+  SQL_DIALECTS.find((d) => d.value === dialect)?.label ?? dialect;
+
+export const quoteString = (value: string): string => `'${value.replace(/'/g, "''")}'`;
+
+// Reserved in all three dialects
+const COMMON_RESERVED_WORDS = `
+  ALL ALTER AND AS ASC BETWEEN BY CASE CHECK COLUMN CONSTRAINT CREATE CROSS DEFAULT DELETE DESC
+  DISTINCT DROP ELSE EXISTS FOREIGN FROM GROUP HAVING IN INNER INSERT INTO IS JOIN LEFT LIKE
+  LIMIT NOT NULL ON OR ORDER OUTER PRIMARY REFERENCES RIGHT SELECT SET TABLE THEN TO UNION
+  UNIQUE UPDATE USING VALUES WHEN WHERE WITH
+`;
+
+// Reserved only in some dialects
+const RESERVED_WORD_LISTS: Record<SQLDialect, string> = {
+  postgresql: `
+  ANALYSE ANALYZE ANY ARRAY ASYMMETRIC BOTH CAST COLLATE CURRENT_DATE CURRENT_ROLE
+  CURRENT_TIME CURRENT_TIMESTAMP CURRENT_USER DEFERRABLE DO END EXCEPT FALSE FETCH FOR FULL
+  GRANT ILIKE INITIALLY INTERSECT LATERAL LEADING LOCALTIME LOCALTIMESTAMP NATURAL OFFSET
+  ONLY OVERLAPS PLACING RETURNING SESSION_USER SIMILAR SOME SYMMETRIC TRAILING TRUE USER
+  VARIADIC WINDOW
+  `,
+  mysql: `
+  ADD BEFORE BOTH CALL CHANGE CONDITION CONVERT CURRENT_DATE CURRENT_TIME CURRENT_TIMESTAMP
+  CURRENT_USER DATABASE DELAYED DESCRIBE DIV DUAL EXPLAIN FALSE FOR FULLTEXT GRANT IGNORE
+  INDEX INTERVAL KEY KEYS KILL LOCK MATCH MOD NATURAL OPTION RANGE READ REGEXP RENAME REPEAT
+  REPLACE REQUIRE RLIKE SCHEMA SHOW SPATIAL TRIGGER TRUE UNLOCK UNSIGNED USAGE USE WHILE
+  WRITE XOR ZEROFILL
+  `,
+  sqlite: `
+  ABORT ACTION ADD AFTER ATTACH AUTOINCREMENT BEFORE BEGIN CAST COLLATE COMMIT CONFLICT
+  CURRENT_DATE CURRENT_TIME CURRENT_TIMESTAMP DATABASE DEFERRABLE DETACH EACH END ESCAPE
+  EXCEPT EXCLUSIVE EXPLAIN FAIL FOR FULL GLOB IF IGNORE INDEX INDEXED INSTEAD INTERSECT
+  ISNULL KEY MATCH NATURAL NOTNULL OFFSET PLAN PRAGMA QUERY RAISE REGEXP REINDEX RELEASE
+  RENAME REPLACE ROLLBACK ROW SAVEPOINT TEMP TRANSACTION TRIGGER VACUUM VIEW VIRTUAL
+  `,
+};
+
+const RESERVED_WORDS = Object.fromEntries(
+  Object.entries(RESERVED_WORD_LISTS).map(([dialect, list]) => [
+    dialect,
+    new Set(`${COMMON_RESERVED_WORDS} ${list}`.trim().split(/\s+/)),
+  ])
+) as Record<SQLDialect, Set<string>>;
+
+export const isReservedWord = (name: string, dialect: SQLDialect): boolean =>
+  RESERVED_WORDS[dialect].has(name.trim().toUpperCase());
+
+export const IDENTIFIER_QUOTING_OPTIONS: { value: IdentifierQuoting; label: string }[] = [
+  { value: 'always', label: 'Always' },
+  { value: 'needed', label: 'Only when needed' },
+  { value: 'never', label: 'Never' },
+];
+
+/**
+ * Names each dialect accepts unquoted. PostgreSQL folds unquoted names to lowercase, so any
+ * uppercase letter needs quotes to survive; MySQL and SQLite keep the case as written.
+ */
+const PLAIN_IDENTIFIERS: Record<SQLDialect, RegExp> = {
+  postgresql: /^[a-z_][a-z0-9_$]*$/,
+  mysql: /^[A-Za-z_$][A-Za-z0-9_$]*$/,
+  sqlite: /^[A-Za-z_][A-Za-z0-9_]*$/,
+};
+
+// Whether the name means the same thing without quotes
+export const needsQuoting = (name: string, dialect: SQLDialect): boolean =>
+  !PLAIN_IDENTIFIERS[dialect].test(name) || isReservedWord(name, dialect);
+
+export const quoteIdentifier = (
+  name: string,
+  dialect: SQLDialect,
+  quoting: IdentifierQuoting = 'always'
+): string => {
+  if (quoting === 'never' || (quoting === 'needed' && !needsQuoting(name, dialect))) {
+    return name;
+  }
+  if (dialect === 'mysql') {
+    return `\`${name.replace(/`/g, '``')}\``;
+  }
+  // PostgreSQL and SQLite both follow the SQL standard
+  return `"${name.replace(/"/g, '""')}"`;
+};
+
+export interface ParsedType {
+  name: string; // Upper-cased base name, e.g. 'VARCHAR', 'TIMESTAMP WITH TIME ZONE'
+  args: string[]; // Raw arguments between parentheses, e.g. ['10', '2']
+  array: boolean; // Postgres array suffix (text[])
+  unsigned: boolean; // MySQL UNSIGNED modifier, not part of name
+}
+
+export const parseTypeString = (type: string): ParsedType => {
+  let rest = type.trim();
+  let array = false;
+  while (rest.endsWith('[]')) {
+    array = true;
+    rest = rest.slice(0, -2).trim();
+  }
+
+  const unsignedMatch = rest.match(/\s+UNSIGNED$/i);
+  const unsigned = !!unsignedMatch;
+  if (unsignedMatch) {
+    rest = rest.slice(0, unsignedMatch.index).trim();
+  }
+
+  const match = rest.match(/^([^(]*)\((.*)\)(.*)$/);
+  if (!match) {
+    return { name: rest.replace(/\s+/g, ' ').toUpperCase(), args: [], array, unsigned };
+  }
+
+  // Keep trailing modifiers such as "TIMESTAMP(3) WITH TIME ZONE"
+  const name = `${match[1]} ${match[3]}`.trim().replace(/\s+/g, ' ').toUpperCase();
+  const args = match[2]
+    .split(',')
+    .map((a) => a.trim())
+    .filter((a) => a !== '');
+  return { name, args, array, unsigned };
+};
+
+// Inverse of parseTypeString
+export const formatTypeString = ({ name, args, array, unsigned }: ParsedType): string => {
+  let type = args.length ? `${name}(${args.join(', ')})` : name;
+  if (unsigned) type += ' UNSIGNED';
+  return array ? `${type}[]` : type;
+};
+
+// Canonical type families, used to translate between dialects
+type TypeFamily =
+  | 'smallint'
+  | 'int'
+  | 'bigint'
+  | 'tinyint'
+  | 'boolean'
+  | 'varchar'
+  | 'char'
+  | 'text'
+  | 'uuid'
+  | 'json'
+  | 'jsonb'
+  | 'date'
+  | 'time'
+  | 'datetime'
+  | 'timestamp'
+  | 'timestamptz'
+  | 'decimal'
+  | 'float'
+  | 'double'
+  | 'blob';
+
+const TYPE_ALIASES: Record<string, TypeFamily> = {
+  SMALLINT: 'smallint',
+  INT2: 'smallint',
+  SMALLSERIAL: 'smallint',
+  INT: 'int',
+  INTEGER: 'int',
+  INT4: 'int',
+  MEDIUMINT: 'int',
+  SERIAL: 'int',
+  BIGINT: 'bigint',
+  INT8: 'bigint',
+  BIGSERIAL: 'bigint',
+  TINYINT: 'tinyint',
+  BOOLEAN: 'boolean',
+  BOOL: 'boolean',
+  VARCHAR: 'varchar',
+  'CHARACTER VARYING': 'varchar',
+  NVARCHAR: 'varchar',
+  CHAR: 'char',
+  CHARACTER: 'char',
+  BPCHAR: 'char',
+  TEXT: 'text',
+  MEDIUMTEXT: 'text',
+  LONGTEXT: 'text',
+  CITEXT: 'text',
+  UUID: 'uuid',
+  JSON: 'json',
+  JSONB: 'jsonb',
+  DATE: 'date',
+  TIME: 'time',
+  'TIME WITHOUT TIME ZONE': 'time',
+  DATETIME: 'datetime',
+  TIMESTAMP: 'timestamp',
+  'TIMESTAMP WITHOUT TIME ZONE': 'timestamp',
+  TIMESTAMPTZ: 'timestamptz',
+  'TIMESTAMP WITH TIME ZONE': 'timestamptz',
+  DECIMAL: 'decimal',
+  NUMERIC: 'decimal',
+  FLOAT: 'float',
+  REAL: 'float',
+  FLOAT4: 'float',
+  DOUBLE: 'double',
+  'DOUBLE PRECISION': 'double',
+  FLOAT8: 'double',
+  BLOB: 'blob',
+  BYTEA: 'blob',
+  LONGBLOB: 'blob',
+};
+
+const SERIAL_TYPES = ['SMALLSERIAL', 'SERIAL', 'BIGSERIAL'];
+
+const TYPE_NAMES: Record<SQLDialect, Record<TypeFamily, string>> = {
+  postgresql: {
+    smallint: 'SMALLINT',
+    int: 'INTEGER',
+    bigint: 'BIGINT',
+    tinyint: 'SMALLINT',
+    boolean: 'BOOLEAN',
+    varchar: 'VARCHAR',
+    char: 'CHAR',
+    text: 'TEXT',
+    uuid: 'UUID',
+    json: 'JSON',
+    jsonb: 'JSONB',
+    date: 'DATE',
+    time: 'TIME',
+    datetime: 'TIMESTAMP',
+    timestamp: 'TIMESTAMP',
+    timestamptz: 'TIMESTAMP WITH TIME ZONE',
+    decimal: 'NUMERIC',
+    float: 'REAL',
+    double: 'DOUBLE PRECISION',
+    blob: 'BYTEA',
+  },
+  mysql: {
+    smallint: 'SMALLINT',
+    int: 'INT',
+    bigint: 'BIGINT',
+    tinyint: 'TINYINT',
+    boolean: 'TINYINT(1)',
+    varchar: 'VARCHAR',
+    char: 'CHAR',
+    text: 'TEXT',
+    uuid: 'CHAR(36)',
+    json: 'JSON',
+    jsonb: 'JSON',
+    date: 'DATE',
+    time: 'TIME',
+    datetime: 'DATETIME',
+    timestamp: 'TIMESTAMP',
+    timestamptz: 'TIMESTAMP',
+    decimal: 'DECIMAL',
+    float: 'FLOAT',
+    double: 'DOUBLE',
+    blob: 'BLOB',
+  },
+  // SQLite only knows storage classes, so every family collapses to its type affinity
+  sqlite: {
+    smallint: 'INTEGER',
+    int: 'INTEGER',
+    bigint: 'INTEGER',
+    tinyint: 'INTEGER',
+    boolean: 'INTEGER',
+    varchar: 'TEXT',
+    char: 'TEXT',
+    text: 'TEXT',
+    uuid: 'TEXT',
+    json: 'TEXT',
+    jsonb: 'TEXT',
+    date: 'TEXT',
+    time: 'TEXT',
+    datetime: 'TEXT',
+    timestamp: 'TEXT',
+    timestamptz: 'TEXT',
+    decimal: 'NUMERIC',
+    float: 'REAL',
+    double: 'REAL',
+    blob: 'BLOB',
+  },
+};
+
+// Families whose parentheses arguments are kept when translating (length / precision)
+const PARAMETERIZED_FAMILIES: TypeFamily[] = ['varchar', 'char', 'decimal', 'time', 'timestamp'];
+
+export const getTypeFamily = (type: string): TypeFamily | undefined =>
+  TYPE_ALIASES[parseTypeString(type).name];
+
+export const isIntegerType = (type: string): boolean => {
+  const family = getTypeFamily(type);
+  return family === 'smallint' || family === 'int' || family === 'bigint' || family === 'tinyint';
+};
+
+export const isSerialType = (type: string): boolean =>
+  SERIAL_TYPES.includes(parseTypeString(type).name);
+
+/**
+ * Translates a free-form column type into the closest type of the target dialect.
+ * Unknown types are passed through untouched.
+ */
+export const mapColumnType = (type: string, dialect: SQLDialect): string => {
+  const parsed = parseTypeString(type);
+  const family = TYPE_ALIASES[parsed.name];
+
+  if (parsed.array && dialect !== 'postgresql') {
+    return dialect === 'mysql' ? 'JSON' : 'TEXT';
+  }
+
+  let mapped: string;
+  if (!family) {
+    mapped = type.trim().replace(/\[\]$/, '');
+  } else {
+    mapped = TYPE_NAMES[dialect][family];
+    if (dialect !== 'sqlite' && PARAMETERIZED_FAMILIES.includes(family) && parsed.args.length) {
+      mapped = `${mapped}(${parsed.args.join(', ')})`;
+    } else if (dialect === 'mysql' && family === 'varchar') {
+      mapped = 'VARCHAR(255)'; // MySQL requires a length on VARCHAR
+    }
+    // Only MySQL has unsigned numbers, elsewhere the signed type has to do
+    if (parsed.unsigned && dialect === 'mysql') {
+      mapped += ' UNSIGNED';
+    }
+  }
+
+  return parsed.array ? `${mapped}[]` : mapped;
+};
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { Project, SQLDialect } from '@/types/schema';
+import { generateSQL } from '@/utils/sqlGenerator';
+import { loadExampleProject } from '@/test/fixtures';
+
+const DIALECTS: SQLDialect[] = ['postgresql', 'mysql', 'sqlite'];
+
+const singleTable = (defaultValue: string): Project => ({
+  ...loadExampleProject(),
+  connections: [],
+  tables: [
+    {
+      id: 't',
+      name: 'events',
+      position: { x: 0, y: 0 },
+      fields: [
+        { id: 'id', name: 'id', type: 'INT', primary: true, notNull: true, unique: true },
+        {
+          id: 'at',
+          name: 'at',
+          type: 'TIMESTAMP',
+          primary: false,
+          notNull: false,
+          unique: false,
+          defaultValue,
+        },
+      ],
+    },
+  ],
+});
+
+describe('generateSQL', () => {
+  it.each(DIALECTS)('matches the snapshot of the example schema for %s', (dialect) => {
+    const sql = generateSQL(loadExampleProject(), { dialect, includeTimestamps: false });
+    expect(sql).toMatchSnapshot();
+  });
+
+  it.each(DIALECTS)('writes DROP statements for %s', (dialect) => {
+    const sql = generateSQL(loadExampleProject(), {
+      dialect,
+      includeDropStatements: true,
+      includeTimestamps: false,
+    });
+    expect(sql).toMatch(/DROP TABLE IF EXISTS/);
+  });
+
+  it('translates PostgreSQL default expressions', () => {
+    const project = singleTable("(now() AT TIME ZONE 'utc'::text)");
+    expect(generateSQL(project, { dialect: 'postgresql' })).toContain(
+      "DEFAULT (now() AT TIME ZONE 'utc'::text)"
+    );
+    expect(generateSQL(project, { dialect: 'mysql' })).toContain('DEFAULT (UTC_TIMESTAMP())');
+    expect(generateSQL(project, { dialect: 'sqlite' })).toContain('DEFAULT CURRENT_TIMESTAMP');
+  });
+
+  it('parenthesizes expression defaults for MySQL and SQLite', () => {
+    const project = singleTable("lower('x')");
+    expect(generateSQL(project, { dialect: 'mysql' })).toContain("DEFAULT (lower('x'))");
+    expect(generateSQL(project, { dialect: 'sqlite' })).toContain("DEFAULT (lower('x'))");
+  });
+
+  it('leaves out defaults a dialect cannot express, with a comment', () => {
+    const sql = generateSQL(singleTable('gen_random_uuid()'), { dialect: 'sqlite' });
+    expect(sql).toContain('  "at" TEXT\n');
+    expect(sql).toContain('-- DEFAULT gen_random_uuid() has no SQLite equivalent');
+  });
+
+  it('translates domain defaults like column defaults', () => {
+    const project = singleTable('utc_timestamp()');
+    project.userTypes = [
+      {
+        id: 'd',
+        kind: 'domain',
+        name: 'stamp',
+        baseType: 'TIMESTAMP',
+        notNull: false,
+        defaultValue: 'utc_timestamp()',
+      },
+    ];
+    const sql = generateSQL(project, { dialect: 'postgresql' });
+    expect(sql).toContain(`CREATE DOMAIN "stamp" AS TIMESTAMP DEFAULT (now() AT TIME ZONE 'utc');`);
+    expect(sql).toContain(`"at" TIMESTAMP DEFAULT (now() AT TIME ZONE 'utc')`);
+  });
+
+  it('quotes only reserved or case-sensitive names when asked to', () => {
+    const project = singleTable('0');
+    project.tables[0].name = 'order';
+    project.tables[0].fields[1].name = 'createdAt';
+    const sql = generateSQL(project, { dialect: 'postgresql', identifierQuoting: 'needed' });
+    expect(sql).toContain('CREATE TABLE "order" (');
+    expect(sql).toContain('  id INTEGER NOT NULL PRIMARY KEY,');
+    expect(sql).toContain('  "createdAt" TIMESTAMP DEFAULT 0');
+  });
+});
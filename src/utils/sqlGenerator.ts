@@ -0,0 +1,571 @@
+// sqlGenerator.ts
+import {
+  Field,
+  Project,
+  ReferentialAction,
+  SQLDialect,
+  SQLExportOptions,
+  TableIndex,
+  TableNode,
+  UserType,
+} from '@/types/schema';
+import {
+  getDialectLabel,
+  isIntegerType,
+  isSerialType,
+  mapColumnType,
+  parseTypeString,
+  quoteIdentifier,
+  quoteString,
+} from '@/utils/sqlDialects';
+import { getDefaultForeignKeyName } from '@/utils/relationships';
+import { getConstraintFields, getConstraintName } from '@/utils/tableConstraints';
+import { getIndexColumnLabel, getIndexName } from '@/utils/tableIndexes';
+import { bindCheckToColumn, findUserType } from '@/utils/userTypes';
+
+export const DEFAULT_SQL_EXPORT_OPTIONS: SQLExportOptions = {
+  dialect: 'postgresql',
+  includeDropStatements: false,
+  includeTimestamps: true,
+  identifierQuoting: 'always',
+};
+
+// Where the script is going: the dialect, and how names are written for it
+interface SQLTarget {
+  dialect: SQLDialect;
+  q: (name: string) => string;
+}
+
+const createTarget = ({
+  dialect,
+  identifierQuoting,
+}: Pick<SQLExportOptions, 'dialect' | 'identifierQuoting'>): SQLTarget => ({
+  dialect,
+  q: (name) => quoteIdentifier(name, dialect, identifierQuoting),
+});
+
+interface ForeignKeyDef {
+  name: string;
+  table: TableNode;
+  columns: string[];
+  refTable: TableNode;
+  refColumns: string[];
+  onDelete?: ReferentialAction;
+  onUpdate?: ReferentialAction;
+}
+
+// SQLite cannot add constraints to an existing table, so its foreign keys go inside CREATE TABLE
+const usesInlineForeignKeys = (dialect: SQLDialect): boolean => dialect === 'sqlite';
+
+const SQL_KEYWORD_DEFAULTS = [
+  'NULL',
+  'TRUE',
+  'FALSE',
+  'CURRENT_DATE',
+  'CURRENT_TIME',
+  'CURRENT_TIMESTAMP',
+  'LOCALTIME',
+  'LOCALTIMESTAMP',
+];
+
+/**
+ * Default expressions with a known meaning, written for each dialect. A missing dialect keeps
+ * the expression as written, null means the dialect has no equivalent.
+ */
+const KNOWN_DEFAULTS: { pattern: RegExp; sql: Partial<Record<SQLDialect, string | null>> }[] = [
+  {
+    pattern: /^(gen_random_uuid|uuid_generate_v4|uuid)\(\)$/i,
+    sql: { postgresql: 'gen_random_uuid()', mysql: '(UUID())', sqlite: null },
+  },
+  {
+    pattern: /^\(?\s*(now\(\)|current_timestamp)\s+at\s+time\s+zone\s+'utc'\s*\)?$/i,
+    sql: { mysql: '(UTC_TIMESTAMP())', sqlite: 'CURRENT_TIMESTAMP' },
+  },
+  {
+    pattern: /^utc_timestamp(\(\))?$/i,
+    sql: {
+      postgresql: "(now() AT TIME ZONE 'utc')",
+      mysql: '(UTC_TIMESTAMP())',
+      sqlite: 'CURRENT_TIMESTAMP',
+    },
+  },
+  {
+    pattern: /^(now\(\)|current_timestamp\(\)|datetime\('now'\))$/i,
+    sql: {
+      postgresql: 'CURRENT_TIMESTAMP',
+      mysql: 'CURRENT_TIMESTAMP',
+      sqlite: 'CURRENT_TIMESTAMP',
+    },
+  },
+  // SQLite knows no local time keywords, only modifiers of its date functions
+  {
+    pattern: /^localtimestamp(\(\))?$/i,
+    sql: { sqlite: "(datetime('now', 'localtime'))" },
+  },
+  { pattern: /^localtime(\(\))?$/i, sql: { sqlite: "(time('now', 'localtime'))" } },
+  // MySQL takes the other CURRENT_ keywords only as expressions
+  { pattern: /^(current_date|curdate\(\))$/i, sql: { mysql: '(CURRENT_DATE)' } },
+  { pattern: /^(current_time|curtime\(\))$/i, sql: { mysql: '(CURRENT_TIME)' } },
+  // Sequences back PostgreSQL serial columns; elsewhere the column is auto-incremented instead
+  { pattern: /^nextval\(/i, sql: { mysql: null, sqlite: null } },
+];
+
+// PostgreSQL casts such as 'utc'::text or '0'::double precision
+const PG_CAST =
+  /::\s*[a-z_][a-z0-9_]*(\s+(precision|varying|with(out)?\s+time\s+zone))*(\s*\([^)]*\))?(\[\])*/gi;
+const PG_ONLY_SYNTAX = /::|\bat\s+time\s+zone\b|\bnextval\s*\(|\bgen_random_uuid\s*\(/i;
+
+const isLiteralDefault = (value: string): boolean =>
+  /^'([^']|'')*'$/.test(value) ||
+  /^[-+]?\d+(\.\d+)?$/.test(value) ||
+  SQL_KEYWORD_DEFAULTS.includes(value.toUpperCase());
+
+// Whether the opening parenthesis closes at the very end, as in (a + b) but not (a) + (b)
+const isParenthesized = (value: string): boolean => {
+  if (!value.startsWith('(') || !value.endsWith(')')) return false;
+  let depth = 0;
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '(') depth++;
+    if (value[i] === ')') depth--;
+    if (depth === 0 && i < value.length - 1) return false;
+  }
+  return true;
+};
+
+interface DefaultClause {
+  sql: string | null;
+  note?: string; // Explains a default that had to be left out
+}
+
+/**
+ * Writes a column default for the dialect. Known expressions are translated; any other
+ * expression is parenthesized outside PostgreSQL, as MySQL 8 and SQLite require, or left out
+ * with a note when it only makes sense to PostgreSQL.
+ */
+const formatDefaultValue = (value: Field['defaultValue'], dialect: SQLDialect): DefaultClause => {
+  // A null default means "no default", which is what every dialect does anyway
+  if (value === undefined || value === null || value === '') return { sql: null };
+  if (typeof value === 'boolean') return { sql: value ? 'TRUE' : 'FALSE' };
+  if (typeof value === 'number') return { sql: String(value) };
+
+  const trimmed = value.trim();
+  const expression = dialect === 'postgresql' ? trimmed : trimmed.replace(PG_CAST, '');
+  // MySQL style (UUID()) is matched without its parentheses
+  const unwrapped = isParenthesized(expression) ? expression.slice(1, -1).trim() : expression;
+  const known = KNOWN_DEFAULTS.find(
+    (entry) => entry.pattern.test(expression) || entry.pattern.test(unwrapped)
+  );
+  const translated = known && dialect in known.sql ? known.sql[dialect] : expression;
+  const dropped = {
+    sql: null,
+    note: `DEFAULT ${trimmed} has no ${getDialectLabel(dialect)} equivalent and is left out`,
+  };
+
+  if (translated === null) return dropped;
+  if (translated !== expression || isLiteralDefault(expression)) return { sql: translated };
+  // Anything else that is not an expression is taken as a plain string
+  if (!/[()']/.test(expression) && !expression.includes('::')) {
+    return { sql: quoteString(trimmed) };
+  }
+  if (dialect === 'postgresql') return { sql: expression };
+  if (PG_ONLY_SYNTAX.test(expression)) return dropped;
+  return { sql: isParenthesized(expression) ? expression : `(${expression})` };
+};
+
+const isAutoIncrement = (field: Field): boolean =>
+  !!field.autoIncrement || isSerialType(field.type);
+
+const getPrimaryKeyFields = (table: TableNode): Field[] => table.fields.filter((f) => f.primary);
+
+interface ColumnType {
+  type: string;
+  notNull?: boolean;
+  defaultValue?: string;
+  check?: string;
+}
+
+/**
+ * Column type of a field typed with a project type. PostgreSQL refers to the type created by
+ * `generateUserTypes`; elsewhere enums become ENUM() or a CHECK, and domains are inlined.
+ */
+const resolveUserType = (field: Field, userType: UserType, target: SQLTarget): ColumnType => {
+  const { dialect, q } = target;
+  const column = q(field.name);
+  const { array } = parseTypeString(field.type);
+
+  if (dialect === 'postgresql') {
+    return { type: `${q(userType.name)}${array ? '[]' : ''}` };
+  }
+  if (array) {
+    return { type: dialect === 'mysql' ? 'JSON' : 'TEXT' };
+  }
+
+  if (userType.kind === 'enum') {
+    const values = userType.values.map(quoteString).join(', ');
+    return dialect === 'mysql'
+      ? { type: `ENUM(${values})` }
+      : { type: 'TEXT', check: `${column} IN (${values})` };
+  }
+  return {
+    type: mapColumnType(userType.baseType, dialect),
+    notNull: userType.notNull,
+    defaultValue: userType.defaultValue?.trim() || undefined,
+    check: userType.check?.trim() ? bindCheckToColumn(userType.check.trim(), column) : undefined,
+  };
+};
+
+const formatLineComment = (text: string): string =>
+  text
+    .split(/\r?\n/)
+    .map((line) => `-- ${line}`.trimEnd())
+    .join('\n');
+
+const generateColumnSQL = (
+  field: Field,
+  table: TableNode,
+  target: SQLTarget,
+  userTypes: UserType[] = []
+): string => {
+  const { dialect, q } = target;
+  const pkFields = getPrimaryKeyFields(table);
+  const inlinePrimary = field.primary && pkFields.length === 1;
+  const autoIncrement = isAutoIncrement(field) && isIntegerType(field.type);
+  const parts = [q(field.name)];
+
+  if (autoIncrement && dialect === 'sqlite' && inlinePrimary) {
+    // AUTOINCREMENT is only valid on a lone INTEGER PRIMARY KEY column
+    parts.push('INTEGER PRIMARY KEY AUTOINCREMENT');
+    return parts.join(' ');
+  }
+
+  const userType = findUserType(userTypes, field.type);
+  const columnType: ColumnType = userType
+    ? resolveUserType(field, userType, target)
+    : { type: mapColumnType(field.type, dialect) };
+  parts.push(columnType.type);
+
+  if (autoIncrement && dialect === 'postgresql') {
+    parts.push('GENERATED BY DEFAULT AS IDENTITY');
+  }
+  // SQLite, unlike the others, allows NULLs in PRIMARY KEY columns unless told otherwise
+  if (field.notNull || columnType.notNull || (field.primary && dialect === 'sqlite')) {
+    parts.push('NOT NULL');
+  }
+  if (autoIncrement && dialect === 'mysql') {
+    parts.push('AUTO_INCREMENT');
+  }
+
+  const notes: string[] = [];
+  if (!autoIncrement) {
+    const fieldDefault = formatDefaultValue(field.defaultValue, dialect);
+    const { sql, note } =
+      fieldDefault.sql === null && !fieldDefault.note
+        ? formatDefaultValue(columnType.defaultValue, dialect)
+        : fieldDefault;
+    if (sql !== null) parts.push(`DEFAULT ${sql}`);
+    if (note) notes.push(note);
+  }
+  if (inlinePrimary) {
+    parts.push('PRIMARY KEY');
+  } else if (field.unique && !field.primary) {
+    parts.push('UNIQUE');
+  }
+  if (columnType.check) {
+    parts.push(`CHECK (${columnType.check})`);
+  }
+  if (field.check?.trim()) {
+    parts.push(`CHECK (${field.check.trim()})`);
+  }
+  if (field.comment?.trim() && dialect === 'mysql') {
+    parts.push(`COMMENT ${quoteString(field.comment.trim())}`);
+  }
+
+  // SQLite keeps no comments in its catalog, a line comment in the DDL is the closest thing
+  if (field.comment?.trim() && dialect === 'sqlite') {
+    notes.unshift(field.comment.trim());
+  }
+  return [...notes.map(formatLineComment), parts.join(' ')].join('\n');
+};
+
+// PostgreSQL stores comments through separate statements once the table exists
+const generateCommentStatements = (table: TableNode, { q }: SQLTarget): string[] => {
+  const statements: string[] = [];
+  if (table.comment?.trim()) {
+    statements.push(`COMMENT ON TABLE ${q(table.name)} IS ${quoteString(table.comment.trim())};`);
+  }
+  table.fields.forEach((field) => {
+    if (field.comment?.trim()) {
+      statements.push(
+        `COMMENT ON COLUMN ${q(table.name)}.${q(field.name)} IS ${quoteString(field.comment.trim())};`
+      );
+    }
+  });
+  return statements;
+};
+
+/**
+ * Collects the foreign keys of the project. Connections are the primary source; field-level
+ * foreignKey entries without a matching connection are included too so nothing gets lost.
+ */
+const collectForeignKeys = (project: Project): ForeignKeyDef[] => {
+  const foreignKeys: ForeignKeyDef[] = [];
+  const seen = new Set<string>();
+
+  // Columns are given by id and written by name
+  const addForeignKey = (
+    table: TableNode | undefined,
+    fieldId: string,
+    refTable: TableNode | undefined,
+    refFieldId: string,
+    options: Partial<Pick<ForeignKeyDef, 'name' | 'onDelete' | 'onUpdate'>> = {}
+  ): void => {
+    const column = table?.fields.find((f) => f.id === fieldId)?.name;
+    const refColumn = refTable?.fields.find((f) => f.id === refFieldId)?.name;
+    if (!column || !refColumn) return;
+    const key = `${table.id}.${fieldId}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    const { name, ...actions } = options;
+    foreignKeys.push({
+      name: name || getDefaultForeignKeyName(table.name, column, refTable.name),
+      table,
+      columns: [column],
+      refTable,
+      refColumns: [refColumn],
+      ...actions,
+    });
+  };
+
+  project.connections.forEach((connection) => {
+    addForeignKey(
+      project.tables.find((t) => t.id === connection.sourceId),
+      connection.sourceFieldId,
+      project.tables.find((t) => t.id === connection.targetId),
+      connection.targetFieldId,
+      { name: connection.name, onDelete: connection.onDelete, onUpdate: connection.onUpdate }
+    );
+  });
+
+  project.tables.forEach((table) => {
+    table.fields.forEach((field) => {
+      if (field.foreignKey) {
+        addForeignKey(
+          table,
+          field.id,
+          project.tables.find((t) => t.id === field.foreignKey?.tableId),
+          field.foreignKey.fieldId
+        );
+      }
+    });
+  });
+
+  return foreignKeys;
+};
+
+const generateForeignKeyClause = (fk: ForeignKeyDef, { q }: SQLTarget): string => {
+  let sql = `CONSTRAINT ${q(fk.name)} FOREIGN KEY (${fk.columns.map(q).join(', ')}) `;
+  sql += `REFERENCES ${q(fk.refTable.name)} (${fk.refColumns.map(q).join(', ')})`;
+  if (fk.onDelete) {
+    sql += ` ON DELETE ${fk.onDelete}`;
+  }
+  if (fk.onUpdate) {
+    sql += ` ON UPDATE ${fk.onUpdate}`;
+  }
+  return sql;
+};
+
+const generateCreateTable = (
+  table: TableNode,
+  foreignKeys: ForeignKeyDef[],
+  target: SQLTarget,
+  userTypes: UserType[] = []
+): string => {
+  const { dialect, q } = target;
+  const lines = table.fields.map((field) => generateColumnSQL(field, table, target, userTypes));
+
+  const pkFields = getPrimaryKeyFields(table);
+  if (pkFields.length > 1) {
+    lines.push(`PRIMARY KEY (${pkFields.map((f) => q(f.name)).join(', ')})`);
+  }
+
+  table.constraints?.forEach((constraint) => {
+    const name = q(getConstraintName(table, constraint));
+    if (constraint.type === 'check') {
+      if (constraint.expression.trim()) {
+        lines.push(`CONSTRAINT ${name} CHECK (${constraint.expression.trim()})`);
+      }
+      return;
+    }
+    const columns = getConstraintFields(table, constraint);
+    if (columns.length > 0) {
+      lines.push(`CONSTRAINT ${name} UNIQUE (${columns.map((f) => q(f.name)).join(', ')})`);
+    }
+  });
+
+  if (usesInlineForeignKeys(dialect)) {
+    foreignKeys
+      .filter((fk) => fk.table.id === table.id)
+      .forEach((fk) => lines.push(generateForeignKeyClause(fk, target)));
+  }
+
+  const body = lines.map((line) => line.replace(/^/gm, '  ')).join(',\n');
+  const comment = table.comment?.trim();
+  if (comment && dialect === 'mysql') {
+    return `CREATE TABLE ${q(table.name)} (\n${body}\n) COMMENT=${quoteString(comment)};`;
+  }
+
+  const sql = `CREATE TABLE ${q(table.name)} (\n${body}\n);`;
+  if (dialect === 'postgresql') {
+    return [sql, ...generateCommentStatements(table, target)].join('\n');
+  }
+  return comment && dialect === 'sqlite' ? `${formatLineComment(comment)}\n${sql}` : sql;
+};
+
+const generateCreateIndex = (table: TableNode, index: TableIndex, target: SQLTarget): string => {
+  const { dialect, q } = target;
+  const columns = index.columns.flatMap((column) => {
+    const label = getIndexColumnLabel(table, column);
+    if (!label) return [];
+    // Parentheses make an expression a key part in every dialect, MySQL requires them
+    const part = column.expression?.trim() ? `(${label})` : q(label);
+    return [column.order === 'desc' ? `${part} DESC` : part];
+  });
+
+  let sql = `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX ${q(getIndexName(table, index))} `;
+  sql += `ON ${q(table.name)}`;
+  if (index.method && dialect === 'postgresql') {
+    sql += ` USING ${index.method}`;
+  }
+  sql += ` (${columns.join(', ')})`;
+
+  const where = index.where?.trim();
+  if (where && dialect === 'mysql') {
+    return `-- MySQL has no partial indexes, WHERE ${where} is not applied\n${sql};`;
+  }
+  return where ? `${sql} WHERE ${where};` : `${sql};`;
+};
+
+const generateIndexes = (table: TableNode, target: SQLTarget): string[] =>
+  (table.indexes ?? [])
+    .filter((index) => index.columns.some((column) => getIndexColumnLabel(table, column)))
+    .map((index) => generateCreateIndex(table, index, target));
+
+const generateAlterForeignKey = (fk: ForeignKeyDef, target: SQLTarget): string =>
+  `ALTER TABLE ${target.q(fk.table.name)} ADD ${generateForeignKeyClause(fk, target)};`;
+
+// Only PostgreSQL has named types, the other dialects get them inlined into the columns
+const generateUserTypes = (userTypes: UserType[], target: SQLTarget): string[] => {
+  const { dialect, q } = target;
+  if (dialect !== 'postgresql') return [];
+
+  return userTypes.map((userType) => {
+    if (userType.kind === 'enum') {
+      return `CREATE TYPE ${q(userType.name)} AS ENUM (${userType.values.map(quoteString).join(', ')});`;
+    }
+    let sql = `CREATE DOMAIN ${q(userType.name)} AS ${mapColumnType(userType.baseType, dialect)}`;
+    if (userType.notNull) sql += ' NOT NULL';
+    const defaultValue = formatDefaultValue(userType.defaultValue, dialect).sql;
+    if (defaultValue !== null) sql += ` DEFAULT ${defaultValue}`;
+    if (userType.check?.trim()) sql += ` CHECK (${userType.check.trim()})`;
+    return `${sql};`;
+  });
+};
+
+const generateDropStatements = (
+  tables: TableNode[],
+  target: SQLTarget,
+  userTypes: UserType[] = []
+): string[] => {
+  const { dialect, q } = target;
+  const drops = [...tables]
+    .reverse()
+    .map(
+      (table) =>
+        `DROP TABLE IF EXISTS ${q(table.name)}${dialect === 'postgresql' ? ' CASCADE' : ''};`
+    );
+  if (dialect === 'postgresql') {
+    userTypes.forEach((userType) => {
+      const kind = userType.kind === 'enum' ? 'TYPE' : 'DOMAIN';
+      drops.push(`DROP ${kind} IF EXISTS ${q(userType.name)} CASCADE;`);
+    });
+  }
+
+  if (dialect === 'mysql') {
+    return ['SET FOREIGN_KEY_CHECKS = 0;', ...drops, 'SET FOREIGN_KEY_CHECKS = 1;'];
+  }
+  if (dialect === 'sqlite') {
+    // Re-enabled right after by the script preamble
+    return ['PRAGMA foreign_keys = OFF;', ...drops];
+  }
+  return drops;
+};
+
+/**
+ * Generates the full DDL script for a project in the requested dialect.
+ */
+export const generateSQL = (project: Project, options: Partial<SQLExportOptions> = {}): string => {
+  const settings = { ...DEFAULT_SQL_EXPORT_OPTIONS, ...options };
+  const { dialect, includeDropStatements, includeTimestamps } = settings;
+  const target = createTarget(settings);
+  const foreignKeys = collectForeignKeys(project);
+  const userTypes = project.userTypes ?? [];
+
+  const header = [
+    `-- ${project.name} SQL Schema`,
+    `-- Generated by DB Canvas for ${getDialectLabel(dialect)}`,
+  ];
+  if (includeTimestamps) {
+    header.push(`-- ${new Date().toISOString()}`);
+  }
+
+  const sections = [header.join('\n')];
+
+  if (includeDropStatements && (project.tables.length > 0 || userTypes.length > 0)) {
+    sections.push(generateDropStatements(project.tables, target, userTypes).join('\n'));
+  }
+  if (dialect === 'sqlite' && project.tables.length > 0) {
+    sections.push('PRAGMA foreign_keys = ON;');
+  }
+
+  const typeStatements = generateUserTypes(userTypes, target);
+  if (typeStatements.length > 0) {
+    sections.push(typeStatements.join('\n'));
+  }
+
+  project.tables.forEach((table) => {
+    sections.push(generateCreateTable(table, foreignKeys, target, userTypes));
+  });
+
+  const indexes = project.tables.flatMap((table) => generateIndexes(table, target));
+  if (indexes.length > 0) {
+    sections.push(indexes.join('\n'));
+  }
+
+  if (!usesInlineForeignKeys(dialect) && foreignKeys.length > 0) {
+    sections.push(foreignKeys.map((fk) => generateAlterForeignKey(fk, target)).join('\n'));
+  }
+
+  return `${sections.join('\n\n')}\n`;
+};
+
+/**
+ * Generates the DDL for a single table, including the foreign keys it declares.
+ */
+export const generateTableSQL = (
+  table: TableNode,
+  project: Project,
+  options: Partial<SQLExportOptions> = {}
+): string => {
+  const target = createTarget({ ...DEFAULT_SQL_EXPORT_OPTIONS, ...options });
+  const { dialect } = target;
+  const foreignKeys = collectForeignKeys(project).filter((fk) => fk.table.id === table.id);
+
+  const statements = [
+    generateCreateTable(table, foreignKeys, target, project.userTypes),
+    ...generateIndexes(table, target),
+  ];
+  if (!usesInlineForeignKeys(dialect)) {
+    statements.push(...foreignKeys.map((fk) => generateAlterForeignKey(fk, target)));
+  }
+  return statements.join('\n');
+};
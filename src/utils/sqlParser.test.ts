@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { Connection, SQLDialect, TableNode } from '@/types/schema';
+import { generateSQL } from '@/utils/sqlGenerator';
+import { parseSQLSchema } from '@/utils/sqlParser';
+import { describeConnection } from '@/utils/relationships';
+import { loadExampleProject } from '@/test/fixtures';
+
+const DIALECTS: SQLDialect[] = ['postgresql', 'mysql', 'sqlite'];
+
+// What survives a trip through SQL: names, keys and relations, not ids or dialect types
+const schemaShape = (
+  tables: TableNode[],
+  connections: Connection[]
+): { tables: unknown[]; relations: string[] } => ({
+  tables: [...tables]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map((table) => ({
+      name: table.name,
+      fields: table.fields.map((field) => ({
+        name: field.name,
+        primary: field.primary,
+        notNull: field.notNull,
+      })),
+    })),
+  relations: connections.map((connection) => describeConnection(connection, tables)).sort(),
+});
+
+describe('parseSQLSchema', () => {
+  it.each(DIALECTS)('reads back the generated %s script of the example schema', (dialect) => {
+    const project = loadExampleProject();
+    const { tables, connections, summary } = parseSQLSchema(generateSQL(project, { dialect }));
+
+    expect(summary.skipped).toEqual([]);
+    expect(summary.tables).toBe(project.tables.length);
+    expect(schemaShape(tables, connections)).toEqual(
+      schemaShape(project.tables, project.connections)
+    );
+  });
+
+  it('reports statements it does not understand', () => {
+    const { tables, summary } = parseSQLSchema(
+      'CREATE TABLE a (id INT PRIMARY KEY);\nCREATE VIEW v AS SELECT * FROM a;'
+    );
+    expect(tables.map((t) => t.name)).toEqual(['a']);
+    expect(summary.skipped).toHaveLength(1);
+    expect(summary.skipped[0].line).toBe(2);
+  });
+
+  it('links foreign keys declared after the referenced table', () => {
+    const { connections, tables } = parseSQLSchema(`
+      CREATE TABLE posts (id INT PRIMARY KEY, author_id INT);
+      CREATE TABLE users (id INT PRIMARY KEY);
+      ALTER TABLE posts ADD CONSTRAINT fk_author FOREIGN KEY (author_id) REFERENCES users (id)
+        ON DELETE CASCADE;
+    `);
+    expect(connections).toHaveLength(1);
+    expect(describeConnection(connections[0], tables)).toBe('posts.author_id → users.id');
+    expect(connections[0].onDelete).toBe('CASCADE');
+  });
+
+  it('reads a trailing backslash as part of the string outside MySQL', () => {
+    const { tables, summary } = parseSQLSchema(
+      "CREATE TABLE notes (body text DEFAULT 'a\\' );\nCREATE TABLE after (id int);"
+    );
+    expect(tables.map((t) => t.name)).toEqual(['notes', 'after']);
+    expect(tables[0].fields[0].defaultValue).toBe("'a\\'");
+    expect(summary.skipped).toEqual([]);
+  });
+
+  it('honours backslash escapes in MySQL scripts and E strings', () => {
+    const mysql = parseSQLSchema("CREATE TABLE `notes` (`body` text DEFAULT 'it\\'s');");
+    expect(mysql.tables[0].fields[0].defaultValue).toBe("'it\\'s'");
+
+    const { tables } = parseSQLSchema("CREATE TABLE notes (body text DEFAULT E'it\\'s');");
+    expect(tables[0].fields[0].defaultValue).toBe("E'it\\'s'");
+  });
+
+  it('skips a statement with an unterminated string and reads on', () => {
+    const { tables, summary } = parseSQLSchema(
+      "CREATE TABLE `notes` (`body` text DEFAULT 'a\\' );\nCREATE TABLE `after` (`id` int);"
+    );
+    expect(tables.map((t) => t.name)).toEqual(['after']);
+    expect(summary.skipped).toEqual([
+      { line: 1, statement: 'CREATE TABLE notes', reason: 'Unterminated string literal on line 1' },
+    ]);
+  });
+
+  it('leaves DEFAULT NULL as a null default', () => {
+    const { tables } = parseSQLSchema(
+      'CREATE TABLE `users` (`email` VARCHAR(255) DEFAULT NULL, `name` TEXT NOT NULL);'
+    );
+    expect(tables[0].fields.map((f) => [f.type, f.defaultValue, f.notNull])).toEqual([
+      ['VARCHAR(255)', null, false],
+      ['TEXT', undefined, true],
+    ]);
+  });
+});
@@ -0,0 +1,828 @@
+// sqlParser.ts
+import { v4 as uuidv4 } from 'uuid';
+import { Connection, Field, ReferentialAction, TableNode } from '@/types/schema';
+import { isSerialType } from '@/utils/sqlDialects';
+import { layoutTables } from '@/utils/layout';
+import { REFERENTIAL_ACTIONS, getDefaultForeignKeyName } from '@/utils/relationships';
+
+interface Token {
+  kind: 'word' | 'quoted' | 'string' | 'number' | 'symbol' | 'unterminated';
+  value: string; // Unquoted value for identifiers, raw text otherwise
+  start: number;
+  end: number;
+  line: number;
+}
+
+export interface SkippedStatement {
+  line: number;
+  statement: string; // Short description, e.g. 'CREATE INDEX'
+  reason: string;
+}
+
+export interface SQLImportSummary {
+  tables: number;
+  relations: number;
+  ignored: number; // Session statements (SET, BEGIN, PRAGMA...) that carry no schema information
+  skipped: SkippedStatement[];
+  warnings: string[];
+}
+
+export interface SQLImportResult {
+  tables: TableNode[];
+  connections: Connection[];
+  summary: SQLImportSummary;
+}
+
+interface PendingForeignKey {
+  table: string;
+  columns: string[];
+  refTable: string;
+  refColumns: string[];
+  name?: string;
+  onDelete?: ReferentialAction;
+  onUpdate?: ReferentialAction;
+  line: number;
+}
+
+// Statements that only configure the session and are dropped without being reported
+const SESSION_STATEMENTS = ['SET', 'BEGIN', 'COMMIT', 'START', 'PRAGMA', 'USE', 'LOCK', 'UNLOCK'];
+
+// Keywords that end the type part of a column definition
+const COLUMN_CONSTRAINT_KEYWORDS = [
+  'NOT',
+  'NULL',
+  'PRIMARY',
+  'UNIQUE',
+  'DEFAULT',
+  'REFERENCES',
+  'CHECK',
+  'CONSTRAINT',
+  'AUTO_INCREMENT',
+  'AUTOINCREMENT',
+  'GENERATED',
+  'IDENTITY',
+  'COLLATE',
+  'COMMENT',
+  'ON',
+  'AS',
+  'KEY',
+];
+
+const TABLE_CONSTRAINT_KEYWORDS = [
+  'CONSTRAINT',
+  'PRIMARY',
+  'UNIQUE',
+  'FOREIGN',
+  'KEY',
+  'INDEX',
+  'CHECK',
+  'FULLTEXT',
+  'SPATIAL',
+  'EXCLUDE',
+];
+
+// MySQL treats a backslash in a string as an escape; PostgreSQL and SQLite only do in E'...'
+const isMySQLScript = (sql: string): boolean => /`|\bENGINE\s*=|\bAUTO_INCREMENT\b/i.test(sql);
+
+const tokenize = (sql: string, backslashEscapes: boolean): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  let line = 1;
+
+  const push = (kind: Token['kind'], value: string, start: number, end: number): void => {
+    tokens.push({ kind, value, start, end, line });
+    line += (sql.slice(start, end).match(/\n/g) || []).length;
+  };
+
+  while (i < sql.length) {
+    const ch = sql[i];
+
+    if (ch === '\n') {
+      line++;
+      i++;
+    } else if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '-' && sql[i + 1] === '-') {
+      while (i < sql.length && sql[i] !== '\n') i++;
+    } else if (ch === '#' && (i === 0 || sql[i - 1] === '\n')) {
+      // MySQL line comment
+      while (i < sql.length && sql[i] !== '\n') i++;
+    } else if (ch === '/' && sql[i + 1] === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      const stop = end === -1 ? sql.length : end + 2;
+      line += (sql.slice(i, stop).match(/\n/g) || []).length;
+      i = stop;
+    } else if (ch === "'" || (/[Ee]/.test(ch) && sql[i + 1] === "'")) {
+      const escapes = backslashEscapes || ch !== "'";
+      let j = sql.indexOf("'", i) + 1;
+      while (j < sql.length) {
+        if (escapes && sql[j] === '\\') j += 2;
+        else if (sql[j] === "'" && sql[j + 1] === "'") j += 2;
+        else if (sql[j] === "'") break;
+        else j++;
+      }
+      if (j < sql.length) {
+        push('string', sql.slice(i, j + 1), i, j + 1);
+        i = j + 1;
+      } else {
+        // Stop at the end of the statement so the rest of the script is still read
+        const end = sql.indexOf(';', i);
+        const stop = end === -1 ? sql.length : end;
+        push('unterminated', sql.slice(i, stop), i, stop);
+        i = stop;
+      }
+    } else if (ch === '"' || ch === '`') {
+      const close = ch;
+      let j = i + 1;
+      let value = '';
+      while (j < sql.length) {
+        if (sql[j] === close && sql[j + 1] === close) {
+          value += close;
+          j += 2;
+        } else if (sql[j] === close) {
+          break;
+        } else {
+          value += sql[j++];
+        }
+      }
+      push('quoted', value, i, j + 1);
+      i = j + 1;
+    } else if (ch === '$' && /^\$[A-Za-z_]*\$/.test(sql.slice(i))) {
+      // PostgreSQL dollar-quoted string ($$ ... $$ or $tag$ ... $tag$)
+      const tag = sql.slice(i).match(/^\$[A-Za-z_]*\$/)?.[0] ?? '$$';
+      const end = sql.indexOf(tag, i + tag.length);
+      const stop = end === -1 ? sql.length : end + tag.length;
+      push('string', sql.slice(i, stop), i, stop);
+      i = stop;
+    } else if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(sql[i + 1] ?? ''))) {
+      const match = sql.slice(i).match(/^[0-9]*\.?[0-9]+(e[+-]?[0-9]+)?/i);
+      const text = match?.[0] ?? ch;
+      push('number', text, i, i + text.length);
+      i += text.length;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = sql.slice(i).match(/^[A-Za-z_][A-Za-z0-9_$]*/);
+      const text = match?.[0] ?? ch;
+      push('word', text, i, i + text.length);
+      i += text.length;
+    } else if (ch === ':' && sql[i + 1] === ':') {
+      push('symbol', '::', i, i + 2);
+      i += 2;
+    } else {
+      push('symbol', ch, i, i + 1);
+      i++;
+    }
+  }
+
+  return tokens;
+};
+
+const splitStatements = (tokens: Token[]): Token[][] => {
+  const statements: Token[][] = [];
+  let current: Token[] = [];
+  tokens.forEach((token) => {
+    if (token.kind === 'symbol' && token.value === ';') {
+      if (current.length) statements.push(current);
+      current = [];
+    } else {
+      current.push(token);
+    }
+  });
+  if (current.length) statements.push(current);
+  return statements;
+};
+
+/**
+ * Small cursor over the tokens of a single statement.
+ */
+class TokenStream {
+  private pos = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  peek(offset = 0): Token | undefined {
+    return this.tokens[this.pos + offset];
+  }
+
+  next(): Token | undefined {
+    return this.tokens[this.pos++];
+  }
+
+  done(): boolean {
+    return this.pos >= this.tokens.length;
+  }
+
+  // True when the next token is the given unquoted keyword
+  isKeyword(keyword: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token?.kind === 'word' && token.value.toUpperCase() === keyword;
+  }
+
+  isSymbol(symbol: string): boolean {
+    const token = this.peek();
+    return token?.kind === 'symbol' && token.value === symbol;
+  }
+
+  // Consumes the given keyword sequence if it is next, e.g. accept('IF', 'NOT', 'EXISTS')
+  accept(...keywords: string[]): boolean {
+    if (!keywords.every((keyword, index) => this.isKeyword(keyword, index))) return false;
+    this.pos += keywords.length;
+    return true;
+  }
+
+  // Consumes a balanced parenthesized group and returns it, parentheses included
+  groupWithParens(): Token[] {
+    if (!this.isSymbol('(')) return [];
+    const start = this.pos++;
+    let depth = 1;
+    while (this.pos < this.tokens.length) {
+      const token = this.tokens[this.pos++];
+      if (token.kind === 'symbol' && token.value === '(') depth++;
+      if (token.kind === 'symbol' && token.value === ')' && --depth === 0) break;
+    }
+    return this.tokens.slice(start, this.pos);
+  }
+
+  // Consumes a balanced parenthesized group and returns its inner tokens
+  group(): Token[] {
+    const tokens = this.groupWithParens();
+    const closed = tokens[tokens.length - 1]?.value === ')' && tokens.length > 1;
+    return tokens.slice(1, closed ? -1 : undefined);
+  }
+
+  // Consumes tokens (keeping parenthesized groups whole) until one of the keywords is next
+  until(keywords: string[]): Token[] {
+    const tokens: Token[] = [];
+    while (!this.done() && !keywords.some((keyword) => this.isKeyword(keyword))) {
+      if (this.isSymbol('(')) tokens.push(...this.groupWithParens());
+      else tokens.push(this.tokens[this.pos++]);
+    }
+    return tokens;
+  }
+
+  // Reads a possibly schema-qualified name and returns its last part
+  qualifiedName(): string | undefined {
+    let name = this.next()?.value;
+    while (this.isSymbol('.')) {
+      this.pos++;
+      name = this.next()?.value;
+    }
+    return name;
+  }
+}
+
+// Splits tokens on top-level commas (commas inside parentheses are kept)
+const splitOnCommas = (tokens: Token[]): Token[][] => {
+  const parts: Token[][] = [];
+  let current: Token[] = [];
+  let depth = 0;
+  tokens.forEach((token) => {
+    if (token.kind === 'symbol' && token.value === '(') depth++;
+    if (token.kind === 'symbol' && token.value === ')') depth--;
+    if (token.kind === 'symbol' && token.value === ',' && depth === 0) {
+      parts.push(current);
+      current = [];
+    } else {
+      current.push(token);
+    }
+  });
+  if (current.length) parts.push(current);
+  return parts;
+};
+
+// Column names from a "(a, b DESC, c(10))" list
+const columnList = (tokens: Token[]): string[] =>
+  splitOnCommas(tokens)
+    .map((part) => part[0]?.value)
+    .filter((name): name is string => !!name);
+
+const sourceText = (sql: string, tokens: Token[]): string =>
+  tokens.length ? sql.slice(tokens[0].start, tokens[tokens.length - 1].end) : '';
+
+// Value of a string literal token, with both '' and backslash-escaped quotes undone
+const stringValue = (token: Token | undefined): string | undefined =>
+  token?.kind === 'string' && /^[Ee]?'/.test(token.value)
+    ? token.value.slice(token.value.indexOf("'") + 1, -1).replace(/''|\\'/g, "'")
+    : undefined;
+
+// Words that make up statement headers, used to describe skipped statements
+const STATEMENT_KEYWORDS = [
+  'ALTER',
+  'COLUMN',
+  'COMMENT',
+  'CREATE',
+  'DOMAIN',
+  'DROP',
+  'EXTENSION',
+  'FUNCTION',
+  'GRANT',
+  'INDEX',
+  'INSERT',
+  'INTO',
+  'MATERIALIZED',
+  'ON',
+  'OR',
+  'REPLACE',
+  'SCHEMA',
+  'SELECT',
+  'SEQUENCE',
+  'TABLE',
+  'TRIGGER',
+  'TYPE',
+  'UNIQUE',
+  'VIEW',
+];
+
+// "CREATE INDEX posts_user_idx": leading keywords upper-cased, followed by the object name
+const describeStatement = (tokens: Token[]): string => {
+  const words: string[] = [];
+  for (const token of tokens) {
+    if (token.kind === 'word' && STATEMENT_KEYWORDS.includes(token.value.toUpperCase())) {
+      words.push(token.value.toUpperCase());
+    } else {
+      if (token.kind === 'word' || token.kind === 'quoted') words.push(token.value);
+      break;
+    }
+  }
+  return words.join(' ');
+};
+
+const parseDefaultValue = (raw: string): Field['defaultValue'] => {
+  const upper = raw.toUpperCase();
+  if (upper === 'NULL') return null;
+  if (upper === 'TRUE' || upper === 'FALSE') return upper === 'TRUE';
+  if (/^-?\d+(\.\d+)?$/.test(raw)) return Number(raw);
+  // Strip surrounding parentheses that MySQL and SQLite dumps like to add: DEFAULT (0)
+  const inner = raw.match(/^\((-?\d+(\.\d+)?)\)$/);
+  return inner ? Number(inner[1]) : raw;
+};
+
+/**
+ * Parses CREATE TABLE, ALTER TABLE ... ADD CONSTRAINT and COMMENT ON statements from MySQL,
+ * PostgreSQL and SQLite dumps into tables, fields and connections laid out with Dagre. Anything else is reported
+ * in the summary.
+ */
+export const parseSQLSchema = (sql: string): SQLImportResult => {
+  const tables: TableNode[] = [];
+  const pendingForeignKeys: PendingForeignKey[] = [];
+  const summary: SQLImportSummary = {
+    tables: 0,
+    relations: 0,
+    ignored: 0,
+    skipped: [],
+    warnings: [],
+  };
+
+  const findTable = (name: string): TableNode | undefined =>
+    tables.find((t) => t.name === name) ??
+    tables.find((t) => t.name.toLowerCase() === name.toLowerCase());
+
+  const findField = (table: TableNode, name: string): Field | undefined =>
+    table.fields.find((f) => f.name === name) ??
+    table.fields.find((f) => f.name.toLowerCase() === name.toLowerCase());
+
+  // Reads "REFERENCES table [(cols)] [ON DELETE ...] [MATCH ...] [DEFERRABLE ...]"
+  const parseReferences = (
+    stream: TokenStream
+  ): Pick<PendingForeignKey, 'refTable' | 'refColumns' | 'onDelete' | 'onUpdate'> => {
+    const refTable = stream.qualifiedName() ?? '';
+    const refColumns = columnList(stream.group());
+    const actions: Pick<PendingForeignKey, 'onDelete' | 'onUpdate'> = {};
+    while (!stream.done()) {
+      const clause = stream.accept('ON', 'DELETE')
+        ? 'onDelete'
+        : stream.accept('ON', 'UPDATE')
+          ? 'onUpdate'
+          : undefined;
+      if (clause) {
+        // Referential actions are one or two words (CASCADE, SET NULL, NO ACTION...)
+        const words = [stream.next()?.value.toUpperCase()];
+        if (words[0] === 'SET' || words[0] === 'NO') words.push(stream.next()?.value.toUpperCase());
+        const action = words.join(' ');
+        if (REFERENTIAL_ACTIONS.includes(action as ReferentialAction)) {
+          actions[clause] = action as ReferentialAction;
+        }
+      } else if (stream.accept('MATCH')) {
+        stream.next();
+      } else if (
+        stream.accept('NOT', 'DEFERRABLE') ||
+        stream.accept('DEFERRABLE') ||
+        stream.accept('INITIALLY')
+      ) {
+        if (stream.isKeyword('DEFERRED') || stream.isKeyword('IMMEDIATE')) stream.next();
+      } else {
+        break;
+      }
+    }
+    return { refTable, refColumns, ...actions };
+  };
+
+  // Applies a table-level constraint; returns false when the element is not a constraint
+  const parseTableConstraint = (table: TableNode, tokens: Token[], line: number): boolean => {
+    const stream = new TokenStream(tokens);
+    if (!TABLE_CONSTRAINT_KEYWORDS.some((keyword) => stream.isKeyword(keyword))) {
+      return false;
+    }
+    const constraintName = stream.accept('CONSTRAINT') ? stream.next()?.value : undefined;
+
+    if (stream.accept('PRIMARY', 'KEY')) {
+      columnList(stream.group()).forEach((name) => {
+        const field = findField(table, name);
+        if (field) {
+          field.primary = true;
+          field.notNull = true;
+        } else {
+          summary.warnings.push(`Primary key column "${name}" not found in "${table.name}"`);
+        }
+      });
+    } else if (stream.accept('UNIQUE')) {
+      if (stream.accept('KEY') || stream.accept('INDEX')) {
+        if (!stream.isSymbol('(')) stream.next();
+      } else if (!stream.isSymbol('(')) {
+        stream.next();
+      }
+      const columns = columnList(stream.group());
+      const fields = columns.map((name) => findField(table, name));
+      if (fields.some((field) => !field)) {
+        summary.warnings.push(
+          `UNIQUE (${columns.join(', ')}) on "${table.name}" refers to a missing column`
+        );
+      } else if (fields.length === 1) {
+        fields[0].unique = true;
+      } else {
+        table.constraints = [
+          ...(table.constraints ?? []),
+          {
+            id: uuidv4(),
+            type: 'unique',
+            name: constraintName,
+            fieldIds: fields.map((field) => field.id),
+          },
+        ];
+      }
+    } else if (stream.accept('FOREIGN', 'KEY')) {
+      if (!stream.isSymbol('(')) stream.next(); // MySQL allows an index name here
+      const columns = columnList(stream.group());
+      if (stream.accept('REFERENCES')) {
+        pendingForeignKeys.push({
+          table: table.name,
+          columns,
+          name: constraintName,
+          ...parseReferences(stream),
+          line,
+        });
+      }
+    } else if (stream.accept('CHECK')) {
+      table.constraints = [
+        ...(table.constraints ?? []),
+        {
+          id: uuidv4(),
+          type: 'check',
+          name: constraintName,
+          expression: sourceText(sql, stream.group()),
+        },
+      ];
+    } else {
+      // KEY / INDEX / FULLTEXT / SPATIAL / EXCLUDE
+      const indexName = tokens.find((t, i) => i > 0 && t.kind !== 'symbol')?.value;
+      summary.warnings.push(
+        `Index ${indexName ? `"${indexName}" ` : ''}on "${table.name}" was not imported`
+      );
+    }
+    return true;
+  };
+
+  const parseColumn = (table: TableNode, tokens: Token[], line: number): void => {
+    const stream = new TokenStream(tokens);
+    const name = stream.next()?.value;
+    if (!name) return;
+
+    // The type runs until the first constraint keyword, e.g. "character varying(255)"
+    const typeTokens: Token[] = [];
+    while (!stream.done()) {
+      const isConstraint =
+        COLUMN_CONSTRAINT_KEYWORDS.some((keyword) => stream.isKeyword(keyword)) ||
+        (stream.isKeyword('CHARACTER') && stream.isKeyword('SET', 1));
+      if (isConstraint && typeTokens.length > 0) break;
+      typeTokens.push(...(stream.isSymbol('(') ? stream.groupWithParens() : [stream.next()]));
+    }
+
+    const type = sourceText(sql, typeTokens)
+      .replace(/\s+/g, ' ')
+      .replace(/\s*\(\s*/g, '(')
+      .replace(/\s*\)/g, ')');
+
+    const field: Field = {
+      id: uuidv4(),
+      name,
+      type: type || 'TEXT',
+      notNull: false,
+      primary: false,
+      unique: false,
+    };
+
+    let constraintName: string | undefined; // Set by "CONSTRAINT name" for the clause after it
+    while (!stream.done()) {
+      const clauseName = constraintName;
+      constraintName = undefined;
+      if (stream.accept('NOT', 'NULL')) {
+        field.notNull = true;
+      } else if (stream.accept('NULL')) {
+        field.notNull = false;
+      } else if (stream.accept('PRIMARY', 'KEY')) {
+        field.primary = true;
+        field.notNull = true;
+        if (stream.isKeyword('ASC') || stream.isKeyword('DESC')) stream.next();
+      } else if (stream.accept('UNIQUE')) {
+        field.unique = true;
+        stream.accept('KEY');
+      } else if (stream.accept('AUTO_INCREMENT') || stream.accept('AUTOINCREMENT')) {
+        field.autoIncrement = true;
+      } else if (stream.accept('GENERATED')) {
+        if (!stream.accept('ALWAYS')) stream.accept('BY', 'DEFAULT');
+        stream.accept('AS');
+        if (stream.accept('IDENTITY')) {
+          field.autoIncrement = true;
+          stream.group();
+        } else {
+          stream.group();
+          if (!stream.accept('STORED')) stream.accept('VIRTUAL');
+          summary.warnings.push(
+            `Generated column "${table.name}.${name}" was imported as a regular column`
+          );
+        }
+      } else if (stream.accept('IDENTITY')) {
+        field.autoIncrement = true;
+        stream.group();
+      } else if (stream.accept('DEFAULT')) {
+        // NULL is also a constraint keyword, so it would end the expression before it starts
+        const raw = stream.accept('NULL')
+          ? 'NULL'
+          : sourceText(sql, stream.until(COLUMN_CONSTRAINT_KEYWORDS));
+        if (/^nextval\s*\(/i.test(raw)) {
+          // Expanded SERIAL column from pg_dump
+          field.autoIncrement = true;
+        } else {
+          field.defaultValue = parseDefaultValue(raw);
+        }
+      } else if (stream.accept('REFERENCES')) {
+        pendingForeignKeys.push({
+          table: table.name,
+          columns: [name],
+          name: clauseName,
+          ...parseReferences(stream),
+          line,
+        });
+      } else if (stream.accept('CONSTRAINT')) {
+        constraintName = stream.next()?.value;
+      } else if (stream.accept('CHECK')) {
+        const check = sourceText(sql, stream.group());
+        field.check = field.check ? `(${field.check}) AND (${check})` : check;
+      } else if (stream.accept('COMMENT')) {
+        field.comment = stringValue(stream.next());
+      } else if (stream.accept('COLLATE')) {
+        stream.next();
+      } else if (stream.accept('CHARACTER', 'SET')) {
+        stream.next();
+      } else if (stream.accept('ON', 'UPDATE')) {
+        // MySQL "ON UPDATE CURRENT_TIMESTAMP"
+        stream.next();
+        stream.group();
+      } else {
+        stream.next();
+      }
+    }
+
+    if (isSerialType(field.type)) {
+      field.autoIncrement = true;
+    }
+    table.fields.push(field);
+  };
+
+  const parseCreateTable = (stream: TokenStream, tokens: Token[]): void => {
+    const line = tokens[0].line;
+    stream.accept('IF', 'NOT', 'EXISTS');
+    const name = stream.qualifiedName();
+    if (!name || !stream.isSymbol('(')) {
+      summary.skipped.push({
+        line,
+        statement: describeStatement(tokens),
+        reason: 'CREATE TABLE without a column list (AS SELECT / LIKE) is not supported',
+      });
+      return;
+    }
+
+    if (findTable(name)) {
+      summary.warnings.push(`Table "${name}" is defined more than once, keeping the first`);
+      return;
+    }
+
+    const table: TableNode = { id: uuidv4(), name, fields: [], position: { x: 0, y: 0 } };
+    const elements = splitOnCommas(stream.group());
+
+    // Columns first, so table constraints can refer to columns declared after them
+    const constraints: Token[][] = [];
+    elements.forEach((element) => {
+      if (!element.length) return;
+      const head = new TokenStream(element);
+      if (TABLE_CONSTRAINT_KEYWORDS.some((keyword) => head.isKeyword(keyword))) {
+        constraints.push(element);
+      } else {
+        parseColumn(table, element, element[0].line);
+      }
+    });
+    constraints.forEach((element) => parseTableConstraint(table, element, element[0].line));
+
+    // MySQL table options, e.g. ENGINE=InnoDB COMMENT='...'
+    while (!stream.done()) {
+      if (stream.accept('COMMENT')) {
+        if (stream.isSymbol('=')) stream.next();
+        table.comment = stringValue(stream.next());
+      } else {
+        stream.next();
+      }
+    }
+
+    tables.push(table);
+  };
+
+  // Handles "ALTER COLUMN x SET DEFAULT ..." / "SET NOT NULL", as emitted by pg_dump
+  const parseAlterColumn = (table: TableNode, tokens: Token[]): boolean => {
+    const stream = new TokenStream(tokens);
+    if (!stream.accept('ALTER')) return false;
+    stream.accept('COLUMN');
+    const field = findField(table, stream.next()?.value ?? '');
+    if (!field) return false;
+
+    if (stream.accept('SET', 'NOT', 'NULL')) {
+      field.notNull = true;
+      return true;
+    }
+    if (stream.accept('SET', 'DEFAULT')) {
+      const raw = sourceText(sql, stream.until([]));
+      if (/^nextval\s*\(/i.test(raw)) {
+        field.autoIncrement = true;
+      } else {
+        field.defaultValue = parseDefaultValue(raw);
+      }
+      return true;
+    }
+    return false;
+  };
+
+  const parseAlterTable = (stream: TokenStream, tokens: Token[]): void => {
+    const line = tokens[0].line;
+    stream.accept('IF', 'EXISTS');
+    stream.accept('ONLY');
+    const name = stream.qualifiedName();
+    const table = name ? findTable(name) : undefined;
+    if (!table) {
+      summary.skipped.push({
+        line,
+        statement: describeStatement(tokens),
+        reason: `Table "${name ?? ''}" is not defined in the script`,
+      });
+      return;
+    }
+
+    splitOnCommas(stream.until([])).forEach((action) => {
+      const actionStream = new TokenStream(action);
+      if (actionStream.accept('ADD') && parseTableConstraint(table, action.slice(1), line)) {
+        return;
+      }
+      if (parseAlterColumn(table, action)) {
+        return;
+      }
+      summary.skipped.push({
+        line,
+        statement: `ALTER TABLE ${table.name} ${describeStatement(action)}`.trim(),
+        reason: 'Only ADD CONSTRAINT is supported in ALTER TABLE',
+      });
+    });
+  };
+
+  // PostgreSQL "COMMENT ON TABLE t IS '...'" and "COMMENT ON COLUMN t.c IS '...'"
+  const parseComment = (stream: TokenStream, tokens: Token[]): void => {
+    const onColumn = stream.accept('COLUMN');
+    if (!onColumn && !stream.accept('TABLE')) {
+      summary.skipped.push({
+        line: tokens[0].line,
+        statement: describeStatement(tokens),
+        reason: 'Only comments on tables and columns are supported',
+      });
+      return;
+    }
+
+    const path = [stream.next()?.value ?? ''];
+    while (stream.isSymbol('.')) {
+      stream.next();
+      path.push(stream.next()?.value ?? '');
+    }
+    stream.accept('IS');
+    const comment = stringValue(stream.next());
+
+    const table = findTable(path[path.length - (onColumn ? 2 : 1)] ?? '');
+    const field = onColumn && table ? findField(table, path[path.length - 1]) : undefined;
+    if (!table || (onColumn && !field)) {
+      summary.warnings.push(
+        `Comment on unknown ${onColumn ? 'column' : 'table'} "${path.join('.')}"`
+      );
+    } else if (field) {
+      field.comment = comment;
+    } else {
+      table.comment = comment;
+    }
+  };
+
+  const statements = splitStatements(tokenize(sql, isMySQLScript(sql)));
+  statements.forEach((tokens) => {
+    const stream = new TokenStream(tokens);
+    const head = tokens[0].kind === 'word' ? tokens[0].value.toUpperCase() : '';
+    const unterminated = tokens.find((token) => token.kind === 'unterminated');
+
+    if (unterminated) {
+      summary.skipped.push({
+        line: tokens[0].line,
+        statement: describeStatement(tokens),
+        reason: `Unterminated string literal on line ${unterminated.line}`,
+      });
+    } else if (SESSION_STATEMENTS.includes(head)) {
+      summary.ignored++;
+    } else if (
+      stream.accept('CREATE', 'TABLE') ||
+      stream.accept('CREATE', 'TEMPORARY', 'TABLE') ||
+      stream.accept('CREATE', 'TEMP', 'TABLE') ||
+      stream.accept('CREATE', 'UNLOGGED', 'TABLE')
+    ) {
+      parseCreateTable(stream, tokens);
+    } else if (stream.accept('ALTER', 'TABLE')) {
+      parseAlterTable(stream, tokens);
+    } else if (stream.accept('COMMENT', 'ON')) {
+      parseComment(stream, tokens);
+    } else {
+      summary.skipped.push({
+        line: tokens[0].line,
+        statement: describeStatement(tokens),
+        reason: 'Unsupported statement',
+      });
+    }
+  });
+
+  // Resolve foreign keys once every table is known
+  const connections: Connection[] = [];
+  pendingForeignKeys.forEach((fk) => {
+    const source = findTable(fk.table);
+    const target = findTable(fk.refTable);
+    if (!source || !target) {
+      summary.warnings.push(
+        `Foreign key ${fk.table}(${fk.columns.join(', ')}) references unknown table "${fk.refTable}" (line ${fk.line})`
+      );
+      return;
+    }
+
+    // REFERENCES without a column list points at the primary key
+    const refColumns = fk.refColumns.length
+      ? fk.refColumns
+      : target.fields.filter((f) => f.primary).map((f) => f.name);
+    if (fk.columns.length > 1) {
+      summary.warnings.push(
+        `Composite foreign key ${fk.table}(${fk.columns.join(', ')}) was split into single-column relations`
+      );
+    }
+
+    fk.columns.forEach((column, index) => {
+      const sourceField = findField(source, column);
+      const targetField = refColumns[index] ? findField(target, refColumns[index]) : undefined;
+      if (!sourceField || !targetField) {
+        summary.warnings.push(
+          `Foreign key ${fk.table}.${column} → ${fk.refTable}.${refColumns[index] ?? '?'} could not be resolved (line ${fk.line})`
+        );
+        return;
+      }
+
+      sourceField.foreignKey = { tableId: target.id, fieldId: targetField.id };
+      const isOneToOne =
+        sourceField.unique ||
+        (sourceField.primary && source.fields.filter((f) => f.primary).length === 1);
+      connections.push({
+        id: uuidv4(),
+        sourceId: source.id,
+        targetId: target.id,
+        sourceFieldId: sourceField.id,
+        targetFieldId: targetField.id,
+        relationshipType: isOneToOne ? 'oneToOne' : 'oneToMany',
+        // A split composite key cannot keep its name, and the default name is implied
+        name:
+          fk.columns.length === 1 &&
+          fk.name !== getDefaultForeignKeyName(source.name, sourceField.name, target.name)
+            ? fk.name
+            : undefined,
+        onDelete: fk.onDelete,
+        onUpdate: fk.onUpdate,
+      });
+    });
+  });
+
+  summary.tables = tables.length;
+  summary.relations = connections.length;
+  return { tables: layoutTables(tables, connections), connections, summary };
+};
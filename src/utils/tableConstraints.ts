@@ -0,0 +1,52 @@
+// tableConstraints.ts
+import { Field, TableConstraint, TableNode } from '@/types/schema';
+
+// Fields of a unique constraint in constraint order, skipping ids that no longer exist
+export const getConstraintFields = (table: TableNode, constraint: TableConstraint): Field[] =>
+  constraint.type === 'unique'
+    ? constraint.fieldIds.flatMap((id) => table.fields.find((f) => f.id === id) ?? [])
+    : [];
+
+export const getConstraintName = (
+  table: Pick<TableNode, 'name' | 'fields' | 'constraints'>,
+  constraint: TableConstraint
+): string => {
+  if (constraint.name?.trim()) return constraint.name.trim();
+  if (constraint.type === 'check') {
+    // Numbered among the table's checks, so the name stays put when other constraints change
+    const checks = (table.constraints ?? []).filter((c) => c.type === 'check');
+    const position = checks.findIndex((c) => c.id === constraint.id);
+    return `chk_${table.name}_${position === -1 ? checks.length + 1 : position + 1}`;
+  }
+  return `uq_${table.name}_${constraint.fieldIds
+    .flatMap((id) => table.fields.find((f) => f.id === id)?.name ?? [])
+    .join('_')}`;
+};
+
+/**
+ * Drops references to fields that are gone, then constraints left without columns or
+ * without an expression.
+ */
+export const pruneConstraints = (
+  fields: Field[],
+  constraints: TableConstraint[] = []
+): TableConstraint[] =>
+  constraints.flatMap((constraint): TableConstraint[] => {
+    if (constraint.type === 'check') {
+      const expression = constraint.expression.trim();
+      return expression ? [{ ...constraint, expression }] : [];
+    }
+    const fieldIds = constraint.fieldIds.filter((id) => fields.some((f) => f.id === id));
+    return fieldIds.length > 0 ? [{ ...constraint, fieldIds }] : [];
+  });
+
+// Rewrites field ids after fields were copied with new ids
+export const remapConstraintFields = (
+  constraints: TableConstraint[],
+  fieldIds: Map<string, string>
+): TableConstraint[] =>
+  constraints.map((constraint) =>
+    constraint.type === 'unique'
+      ? { ...constraint, fieldIds: constraint.fieldIds.map((id) => fieldIds.get(id) ?? id) }
+      : constraint
+  );
@@ -0,0 +1,81 @@
+// tableDeletion.ts
+import { Connection, Field, Project, TableNode } from '@/types/schema';
+import { describeConnection } from '@/utils/relationships';
+import { syncJunctionTables } from '@/utils/junctionTables';
+import { pruneConstraints } from '@/utils/tableConstraints';
+import { pruneIndexes } from '@/utils/tableIndexes';
+
+// What happens to columns of other tables that reference the deleted one
+export type ForeignKeyColumnMode = 'dropColumns' | 'dropConstraints';
+
+export interface ForeignKeyColumnImpact {
+  table: TableNode;
+  field: Field;
+}
+
+export interface TableDeletionImpact {
+  table: TableNode;
+  relations: { connection: Connection; description: string }[];
+  foreignKeyColumns: ForeignKeyColumnImpact[]; // In other tables, pointing at the deleted one
+  junctionTables: TableNode[]; // Link tables that lose a side and become ordinary tables
+}
+
+type DeletionState = Pick<Project, 'tables' | 'connections'>;
+
+export const getTableDeletionImpact = (
+  project: DeletionState,
+  tableId: string
+): TableDeletionImpact | null => {
+  const table = project.tables.find((t) => t.id === tableId);
+  if (!table) return null;
+
+  const others = project.tables.filter((t) => t.id !== tableId);
+  return {
+    table,
+    relations: project.connections
+      .filter((c) => c.sourceId === tableId || c.targetId === tableId)
+      .map((connection) => ({
+        connection,
+        description: describeConnection(connection, project.tables),
+      })),
+    foreignKeyColumns: others.flatMap((t) =>
+      t.fields
+        .filter((field) => field.foreignKey?.tableId === tableId)
+        .map((field) => ({ table: t, field }))
+    ),
+    junctionTables: others.filter(
+      (t) => t.junction?.sourceTableId === tableId || t.junction?.targetTableId === tableId
+    ),
+  };
+};
+
+/**
+ * Deletes a table together with every relation to or from it. Referencing columns in other
+ * tables are either dropped or kept without their foreign key. Mutates `project`, meant to run
+ * on an Immer draft so the whole deletion is one change.
+ */
+export const applyTableDeletion = (
+  project: DeletionState,
+  tableId: string,
+  mode: ForeignKeyColumnMode
+): void => {
+  project.tables = project.tables.filter((t) => t.id !== tableId);
+  project.connections = project.connections.filter(
+    (c) => c.sourceId !== tableId && c.targetId !== tableId
+  );
+
+  project.tables.forEach((table) => {
+    if (!table.fields.some((f) => f.foreignKey?.tableId === tableId)) return;
+    if (mode === 'dropColumns') {
+      table.fields = table.fields.filter((f) => f.foreignKey?.tableId !== tableId);
+      if (table.constraints) table.constraints = pruneConstraints(table.fields, table.constraints);
+      if (table.indexes) table.indexes = pruneIndexes(table.fields, table.indexes);
+    } else {
+      table.fields.forEach((field) => {
+        if (field.foreignKey?.tableId === tableId) delete field.foreignKey;
+      });
+    }
+  });
+
+  syncJunctionTables(project);
+};
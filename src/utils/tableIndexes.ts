@@ -0,0 +1,60 @@
+// tableIndexes.ts
+import { Field, IndexColumn, TableIndex, TableNode } from '@/types/schema';
+
+export const INDEX_METHODS = ['btree', 'hash', 'gin'] as const;
+
+const isExpressionColumn = (column: IndexColumn): boolean => !!column.expression?.trim();
+
+// Field name or expression of an index column, undefined when its field no longer exists
+export const getIndexColumnLabel = (
+  table: Pick<TableNode, 'fields'>,
+  column: IndexColumn
+): string | undefined =>
+  isExpressionColumn(column)
+    ? column.expression.trim()
+    : table.fields.find((f) => f.id === column.fieldId)?.name;
+
+export const getIndexName = (
+  table: Pick<TableNode, 'name' | 'fields'>,
+  index: TableIndex
+): string => {
+  if (index.name?.trim()) return index.name.trim();
+  const columns = index.columns
+    .map((column) => getIndexColumnLabel(table, column))
+    .filter(Boolean)
+    .map((label) =>
+      label
+        .replace(/\W+/g, '_')
+        .replace(/^_+|_+$/g, '')
+        .toLowerCase()
+    );
+  return `idx_${table.name}_${columns.join('_')}`;
+};
+
+/**
+ * Drops columns referencing fields that are gone or with an empty expression, then indexes left
+ * without columns.
+ */
+export const pruneIndexes = (fields: Field[], indexes: TableIndex[] = []): TableIndex[] =>
+  indexes
+    .map((index) => ({
+      ...index,
+      columns: index.columns.filter(
+        (column) => isExpressionColumn(column) || fields.some((f) => f.id === column.fieldId)
+      ),
+    }))
+    .filter((index) => index.columns.length > 0);
+
+// Rewrites field ids after fields were copied with new ids
+export const remapIndexFields = (
+  indexes: TableIndex[],
+  fieldIds: Map<string, string>
+): TableIndex[] =>
+  indexes.map((index) => ({
+    ...index,
+    columns: index.columns.map((column) =>
+      column.fieldId
+        ? { ...column, fieldId: fieldIds.get(column.fieldId) ?? column.fieldId }
+        : column
+    ),
+  }));
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { validateTypeParams } from '@/utils/typeCatalog';
+
+describe('validateTypeParams', () => {
+  it.each(['FLOAT(8,2)', 'FLOAT(24)', 'DOUBLE(10,3)', 'TEXT(500)', 'BLOB(1024)', 'YEAR(4)'])(
+    'accepts the MySQL type %s',
+    (type) => {
+      expect(validateTypeParams(type, 'mysql')).toEqual([]);
+    }
+  );
+
+  it('checks parameters against the limits of the dialect', () => {
+    expect(validateTypeParams('DECIMAL(100,4)', 'postgresql')).toEqual([]);
+    expect(validateTypeParams('DECIMAL(100,4)', 'mysql')).toEqual([
+      'DECIMAL precision must be between 1 and 65',
+    ]);
+    expect(validateTypeParams('VARCHAR(0)', 'postgresql')).toHaveLength(1);
+    expect(validateTypeParams('NUMERIC(5,8)', 'postgresql')).toEqual([
+      'NUMERIC scale cannot exceed its precision',
+    ]);
+  });
+
+  it('accepts types the dialect does not list', () => {
+    expect(validateTypeParams('DATETIME(7)', 'postgresql')).toEqual([]);
+    expect(validateTypeParams('TIMESTAMPTZ(9)', 'mysql')).toEqual([]);
+  });
+
+  it('accepts any parameters in SQLite', () => {
+    expect(validateTypeParams('TEXT(500)', 'sqlite')).toEqual([]);
+    expect(validateTypeParams('VARCHAR(20)', 'sqlite')).toEqual([]);
+  });
+});
@@ -0,0 +1,181 @@
+// typeCatalog.ts
+import { DataType, DataTypeParam, Project, SQLDialect } from '@/types/schema';
+import { DEFAULT_SQL_EXPORT_OPTIONS } from '@/utils/sqlGenerator';
+import { parseTypeString } from '@/utils/sqlDialects';
+
+const length = (max: number, defaultValue?: number, min = 1): DataTypeParam => ({
+  kind: 'length',
+  min,
+  max,
+  default: defaultValue,
+});
+const precision = (max: number, defaultValue?: number, min = 1): DataTypeParam => ({
+  kind: 'precision',
+  min,
+  max,
+  default: defaultValue,
+});
+const scale = (max: number, defaultValue?: number): DataTypeParam => ({
+  kind: 'scale',
+  min: 0,
+  max,
+  default: defaultValue,
+});
+// Fractional seconds of time types
+const fractionalSeconds = precision(6, undefined, 0);
+
+const POSTGRES_TYPES: DataType[] = [
+  { name: 'SMALLINT' },
+  { name: 'INTEGER' },
+  { name: 'BIGINT' },
+  { name: 'SERIAL' },
+  { name: 'BIGSERIAL' },
+  { name: 'NUMERIC', params: [precision(1000, 10), scale(1000, 2)] },
+  { name: 'DECIMAL', params: [precision(1000, 10), scale(1000, 2)] },
+  { name: 'REAL' },
+  { name: 'DOUBLE PRECISION' },
+  { name: 'BOOLEAN' },
+  { name: 'VARCHAR', params: [length(10485760, 255)] },
+  { name: 'CHAR', params: [length(10485760, 1)] },
+  { name: 'TEXT' },
+  { name: 'UUID' },
+  { name: 'JSON' },
+  { name: 'JSONB' },
+  { name: 'DATE' },
+  { name: 'TIME', params: [fractionalSeconds] },
+  { name: 'TIMESTAMP', params: [fractionalSeconds] },
+  { name: 'TIMESTAMPTZ', params: [fractionalSeconds] },
+  { name: 'INTERVAL', params: [fractionalSeconds] },
+  { name: 'BYTEA' },
+  { name: 'INET' },
+];
+
+// MySQL integers accept a deprecated display width, kept so imported schemas stay valid
+const mysqlInteger = (name: string): DataType => ({ name, params: [length(255)], unsigned: true });
+
+const MYSQL_TYPES: DataType[] = [
+  mysqlInteger('TINYINT'),
+  mysqlInteger('SMALLINT'),
+  mysqlInteger('MEDIUMINT'),
+  mysqlInteger('INT'),
+  mysqlInteger('BIGINT'),
+  { name: 'DECIMAL', params: [precision(65, 10), scale(30, 2)] },
+  // FLOAT(p) picks the size, FLOAT(M, D) and DOUBLE(M, D) are deprecated but still accepted
+  { name: 'FLOAT', params: [precision(255, undefined, 0), scale(30)] },
+  { name: 'DOUBLE', params: [precision(255), scale(30)] },
+  { name: 'BOOLEAN' },
+  { name: 'VARCHAR', params: [length(65535, 255)] },
+  { name: 'CHAR', params: [length(255, 1, 0)] },
+  // TEXT(M) and BLOB(M) choose the smallest type that holds M bytes
+  { name: 'TEXT', params: [length(4294967295)] },
+  { name: 'MEDIUMTEXT' },
+  { name: 'LONGTEXT' },
+  { name: 'JSON' },
+  { name: 'DATE' },
+  { name: 'TIME', params: [fractionalSeconds] },
+  { name: 'DATETIME', params: [fractionalSeconds] },
+  { name: 'TIMESTAMP', params: [fractionalSeconds] },
+  { name: 'YEAR', params: [length(4, undefined, 4)] },
+  { name: 'BLOB', params: [length(4294967295)] },
+  { name: 'LONGBLOB' },
+  { name: 'ENUM', values: true },
+  { name: 'SET', values: true },
+];
+
+// SQLite stores any declared type under one of its five affinities
+const SQLITE_TYPES: DataType[] = [
+  { name: 'INTEGER' },
+  { name: 'REAL' },
+  { name: 'NUMERIC' },
+  { name: 'TEXT' },
+  { name: 'BLOB' },
+];
+
+export const TYPE_CATALOG: Record<SQLDialect, DataType[]> = {
+  postgresql: POSTGRES_TYPES,
+  mysql: MYSQL_TYPES,
+  sqlite: SQLITE_TYPES,
+};
+
+// Only PostgreSQL has array columns; other dialects export them as JSON or TEXT
+export const supportsArrayTypes = (dialect: SQLDialect): boolean => dialect === 'postgresql';
+
+// Type of a newly added field
+export const getDefaultFieldType = (dialect: SQLDialect): string =>
+  dialect === 'sqlite' ? 'TEXT' : 'VARCHAR(255)';
+
+// Dialect the project is designed for, the one its SQL export is set to
+export const getProjectDialect = (project: Project | null | undefined): SQLDialect =>
+  project?.settings?.sqlExport?.dialect ?? DEFAULT_SQL_EXPORT_OPTIONS.dialect;
+
+/**
+ * Looks a type name up in the dialect's catalog. Names it does not list (types of another
+ * database, custom or user-defined types) return undefined: another dialect's limits say
+ * nothing about what this one accepts.
+ */
+export const findDataType = (name: string, dialect: SQLDialect): DataType | undefined => {
+  const upper = name.toUpperCase();
+  return TYPE_CATALOG[dialect].find((t) => t.name === upper);
+};
+
+// Unquoted values of a value-list type such as ENUM('a', 'b')
+export const parseTypeValues = (args: string[]): string[] =>
+  args.map((arg) => arg.replace(/^'(.*)'$/, '$1').replace(/''/g, "'"));
+
+/**
+ * Checks the parameters of a column type against the catalog, e.g. VARCHAR(0) or
+ * DECIMAL(5, 8). Types missing from the catalog are accepted as written, and so is anything in
+ * SQLite, which ignores type parameters.
+ */
+export const validateTypeParams = (type: string, dialect: SQLDialect): string[] => {
+  if (dialect === 'sqlite') return [];
+  const parsed = parseTypeString(type);
+  const dataType = findDataType(parsed.name, dialect);
+  if (!dataType) return [];
+
+  if (dataType.values) {
+    if (parsed.args.length === 0) {
+      return [`${dataType.name} needs at least one value`];
+    }
+    return parsed.args.some((arg) => !/^'.*'$/.test(arg))
+      ? [`${dataType.name} values must be quoted strings`]
+      : [];
+  }
+
+  const params = dataType.params ?? [];
+  if (parsed.args.length > params.length) {
+    return [
+      params.length
+        ? `${dataType.name} takes at most ${params.length} parameter${params.length > 1 ? 's' : ''}`
+        : `${dataType.name} takes no parameters`,
+    ];
+  }
+
+  const errors: string[] = [];
+  const values = parsed.args.map((arg, i) => {
+    const param = params[i];
+    if (!/^\d+$/.test(arg)) {
+      errors.push(`${dataType.name} ${param.kind} must be a whole number`);
+      return undefined;
+    }
+    const value = Number(arg);
+    if (value < param.min || value > param.max) {
+      errors.push(`${dataType.name} ${param.kind} must be between ${param.min} and ${param.max}`);
+    }
+    return value;
+  });
+
+  const precisionIndex = params.findIndex((p) => p.kind === 'precision');
+  const scaleIndex = params.findIndex((p) => p.kind === 'scale');
+  if (
+    precisionIndex !== -1 &&
+    scaleIndex !== -1 &&
+    values[precisionIndex] !== undefined &&
+    values[scaleIndex] !== undefined &&
+    values[scaleIndex] > values[precisionIndex]
+  ) {
+    errors.push(`${dataType.name} scale cannot exceed its precision`);
+  }
+
+  return errors;
+};
@@ -0,0 +1,105 @@
+// userTypes.ts
+import { Project, UserType } from '@/types/schema';
+import { formatTypeString, parseTypeString } from '@/utils/sqlDialects';
+import { findDataType, validateTypeParams } from '@/utils/typeCatalog';
+import { ValidationResult } from '@/utils/validation';
+
+// Project type a field type refers to, ignoring case and a Postgres array suffix
+export const findUserType = (userTypes: UserType[] = [], type: string): UserType | undefined => {
+  const { name } = parseTypeString(type);
+  return userTypes.find((t) => t.name.toUpperCase() === name);
+};
+
+// Column type that replaces a project type once it is deleted
+export const getUserTypeFallback = (userType: UserType): string =>
+  userType.kind === 'enum' ? 'TEXT' : userType.baseType;
+
+export const describeUserType = (userType: UserType): string => {
+  if (userType.kind === 'enum') {
+    return `ENUM (${userType.values.join(', ')})`;
+  }
+  const parts = [userType.baseType];
+  if (userType.notNull) parts.push('NOT NULL');
+  if (userType.defaultValue?.trim()) parts.push(`DEFAULT ${userType.defaultValue.trim()}`);
+  if (userType.check?.trim()) parts.push(`CHECK (${userType.check.trim()})`);
+  return parts.join(' ');
+};
+
+// Domain checks are written against VALUE, inlined checks need the column instead
+export const bindCheckToColumn = (check: string, column: string): string =>
+  check.replace(/\bVALUE\b/gi, column);
+
+export const validateUserTypes = (userTypes: UserType[]): ValidationResult => {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  userTypes.forEach((userType) => {
+    const name = userType.name.trim();
+    const label = name || `Unnamed ${userType.kind}`;
+    if (!name) {
+      errors.push('Type name is required');
+    } else if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name)) {
+      errors.push(
+        `Type '${name}': name must start with a letter or underscore and contain only alphanumeric characters`
+      );
+    } else if (seen.has(name.toUpperCase())) {
+      errors.push(`Type '${name}' is defined more than once`);
+    } else if (findDataType(name, 'postgresql')) {
+      errors.push(`Type '${name}': name clashes with a built-in type`);
+    }
+    seen.add(name.toUpperCase());
+
+    if (userType.kind === 'enum') {
+      if (userType.values.length === 0) {
+        errors.push(`Type '${label}': an enum needs at least one value`);
+      } else if (new Set(userType.values).size !== userType.values.length) {
+        errors.push(`Type '${label}': enum values must be unique`);
+      }
+    } else if (!userType.baseType.trim()) {
+      errors.push(`Type '${label}': a domain needs a base type`);
+    } else {
+      errors.push(
+        ...validateTypeParams(userType.baseType, 'postgresql').map((e) => `Type '${label}': ${e}`)
+      );
+    }
+  });
+
+  return { valid: errors.length === 0, errors };
+};
+
+/**
+ * Replaces the project's types with `userTypes`, in place. Fields typed with a renamed type
+ * follow the new name, fields typed with a deleted one fall back to its underlying column type.
+ */
+export const applyUserTypes = (project: Project, userTypes: UserType[]): void => {
+  const previous = project.userTypes ?? [];
+  project.tables.forEach((table) => {
+    table.fields.forEach((field) => {
+      const oldType = findUserType(previous, field.type);
+      if (!oldType) return;
+
+      const parsed = parseTypeString(field.type);
+      const newType = userTypes.find((t) => t.id === oldType.id);
+      field.type = newType
+        ? formatTypeString({ ...parsed, name: newType.name })
+        : formatTypeString({
+            ...parseTypeString(getUserTypeFallback(oldType)),
+            array: parsed.array,
+          });
+    });
+  });
+  project.userTypes = userTypes;
+  project.updatedAt = new Date().toISOString();
+};
+
+// Number of fields per project type, keyed by type id
+export const countUserTypeUsage = (project: Project): Map<string, number> => {
+  const counts = new Map<string, number>();
+  project.tables.forEach((table) =>
+    table.fields.forEach((field) => {
+      const userType = findUserType(project.userTypes, field.type);
+      if (userType) counts.set(userType.id, (counts.get(userType.id) ?? 0) + 1);
+    })
+  );
+  return counts;
+};
@@ -1,12 +1,25 @@
 // validation.ts
-import { TableNode, Field, Connection } from '@/types/schema';
+import { TableNode, Field, Connection, SQLDialect } from '@/types/schema';
+import { DEFAULT_SQL_EXPORT_OPTIONS } from '@/utils/sqlGenerator';
+import { getDialectLabel, isReservedWord } from '@/utils/sqlDialects';
+import { validateTypeParams } from '@/utils/typeCatalog';
 
 export interface ValidationResult {
   valid: boolean;
   errors: string[];
+  warnings?: string[]; // Allowed, but likely to cause trouble
 }
 
-export const validateTable = (table: TableNode): ValidationResult => {
+// Reserved words are valid names, they just have to be quoted wherever they are used
+export const getReservedWordWarning = (name: string, dialect: SQLDialect): string | undefined =>
+  isReservedWord(name, dialect)
+    ? `'${name.trim()}' is a reserved word in ${getDialectLabel(dialect)} and must be quoted in SQL`
+    : undefined;
+
+export const validateTable = (
+  table: TableNode,
+  dialect: SQLDialect = DEFAULT_SQL_EXPORT_OPTIONS.dialect
+): ValidationResult => {
   const errors: string[] = [];
 
   if (!table.name.trim()) {
@@ -21,16 +34,23 @@ export const validateTable = (table: TableNode): ValidationResult => {
     errors.push('Table must have at least one field');
   }
 
+  const warnings = [getReservedWordWarning(table.name, dialect)].filter(Boolean);
+
   // Validate each field
-  const fieldErrors = table.fields.flatMap((field) =>
-    validateField(field).errors.map((e) => `Field '${field.name}': ${e}`)
-  );
-  errors.push(...fieldErrors);
+  table.fields.forEach((field) => {
+    const result = validateField(field, dialect);
+    errors.push(...result.errors.map((e) => `Field '${field.name}': ${e}`));
+    warnings.push(...result.warnings);
+  });
 
-  return { valid: errors.length === 0, errors };
+  return { valid: errors.length === 0, errors, warnings };
 };
 
-export const validateField = (field: Field): ValidationResult => {
+// Type parameters are checked against the catalog of `dialect`, see utils/typeCatalog.ts
+export const validateField = (
+  field: Field,
+  dialect: SQLDialect = DEFAULT_SQL_EXPORT_OPTIONS.dialect
+): ValidationResult => {
   const errors: string[] = [];
 
   if (!field.name.trim()) {
@@ -43,12 +63,19 @@ export const validateField = (field: Field): ValidationResult => {
 
   if (!field.type) {
     errors.push('Field type is required');
+  } else {
+    errors.push(...validateTypeParams(field.type, dialect));
   }
 
-  return { valid: errors.length === 0, errors };
+  const warnings = [getReservedWordWarning(field.name, dialect)].filter(Boolean);
+  return { valid: errors.length === 0, errors, warnings };
 };
 
-export const validateConnection = (conn: Connection, tables: TableNode[]): ValidationResult => {
+export const validateConnection = (
+  conn: Connection,
+  tables: TableNode[],
+  dialect: SQLDialect = DEFAULT_SQL_EXPORT_OPTIONS.dialect
+): ValidationResult => {
   const errors: string[] = [];
 
   const sourceTable = tables.find((t) => t.id === conn.sourceId);
@@ -62,13 +89,55 @@ export const validateConnection = (conn: Connection, tables: TableNode[]): Valid
     errors.push('Target table not found');
   }
 
-  if (sourceTable && !sourceTable.fields.some((f) => f.name === conn.sourceField)) {
-    errors.push(`Source field '${conn.sourceField}' not found in table '${sourceTable.name}'`);
+  const sourceField = sourceTable?.fields.find((f) => f.id === conn.sourceFieldId);
+  if (sourceTable && !sourceField) {
+    errors.push(`Source field not found in table '${sourceTable.name}'`);
   }
 
-  if (targetTable && !targetTable.fields.some((f) => f.name === conn.targetField)) {
-    errors.push(`Target field '${conn.targetField}' not found in table '${targetTable.name}'`);
+  if (targetTable && !targetTable.fields.some((f) => f.id === conn.targetFieldId)) {
+    errors.push(`Target field not found in table '${targetTable.name}'`);
   }
 
+  errors.push(...getReferentialActionErrors(conn, tables, dialect));
+
   return { valid: errors.length === 0, errors };
 };
+
+/**
+ * The actions write to the referencing column, so it has to accept the value they set. Also
+ * checked when the column changes, see useTables.updateTable and the linter.
+ */
+export const getReferentialActionErrors = (
+  conn: Connection,
+  tables: TableNode[],
+  dialect: SQLDialect
+): string[] => {
+  const errors: string[] = [];
+  const sourceTable = tables.find((t) => t.id === conn.sourceId);
+  const sourceField = sourceTable?.fields.find((f) => f.id === conn.sourceFieldId);
+  if (!sourceField) return errors;
+
+  const actions = [
+    ['ON DELETE', conn.onDelete],
+    ['ON UPDATE', conn.onUpdate],
+  ] as const;
+  actions.forEach(([clause, action]) => {
+    const column = `'${sourceTable.name}.${sourceField.name}'`;
+    if (action === 'SET NULL' && (sourceField.notNull || sourceField.primary)) {
+      errors.push(`${clause} SET NULL needs a nullable column, but ${column} is NOT NULL`);
+    }
+    if (action === 'SET DEFAULT') {
+      if (dialect === 'mysql') {
+        errors.push(`${clause} SET DEFAULT is not supported by MySQL`);
+      } else if (
+        sourceField.defaultValue === undefined ||
+        sourceField.defaultValue === null ||
+        sourceField.defaultValue === ''
+      ) {
+        errors.push(`${clause} SET DEFAULT needs a default value on ${column}`);
+      }
+    }
+  });
+
+  return errors;
+};